@@ -0,0 +1,22 @@
+import { type NextRequest } from 'next/server'
+import { authenticateApiRequest } from '@/lib/logs/auth'
+import { listRevisions } from '@/lib/logs/server'
+import { apiJson, apiError } from '@/lib/logs/api'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const auth = await authenticateApiRequest(request, 'read')
+  if (auth.response) return auth.response
+  const { supabase } = auth
+
+  try {
+    const revisions = await listRevisions(supabase, id)
+    return apiJson({ revisions })
+  } catch (error) {
+    console.error('Error listing revisions:', error)
+    return apiError(500, 'internal_error', 'Could not load revisions')
+  }
+}
@@ -0,0 +1,82 @@
+import { type NextRequest } from 'next/server'
+import { authenticateApiRequest } from '@/lib/logs/auth'
+import { getLog, updateLog, deleteLog } from '@/lib/logs/server'
+import { parseLogUpdate, parseEditedAt } from '@/lib/logs/validation'
+import { apiJson, apiError, validationError } from '@/lib/logs/api'
+import { dispatchLogEvent } from '@/lib/webhooks/server'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const auth = await authenticateApiRequest(request, 'read')
+  if (auth.response) return auth.response
+  const { supabase } = auth
+
+  try {
+    const log = await getLog(supabase, id)
+    if (!log) {
+      return apiError(404, 'not_found', 'Log not found')
+    }
+    return apiJson({ log })
+  } catch (error) {
+    console.error('Error loading log:', error)
+    return apiError(500, 'internal_error', 'Could not load log')
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const auth = await authenticateApiRequest(request, 'write')
+  if (auth.response) return auth.response
+  const { supabase, userId } = auth
+
+  const body = await request.json().catch(() => null)
+  const parsed = parseLogUpdate(body)
+  if (parsed.error !== undefined) {
+    return validationError(parsed.issues)
+  }
+
+  try {
+    const result = await updateLog(supabase, id, parsed.value, parseEditedAt(body))
+    if (result.status === 'not_found') {
+      return apiError(404, 'not_found', 'Log not found')
+    }
+    if (result.status === 'conflict') {
+      // A newer edit from another device already won; send it back so the client can adopt it
+      return apiError(409, 'conflict', 'Log was changed on another device', { log: result.log })
+    }
+    await dispatchLogEvent(supabase, userId, 'log.updated', result.log)
+    return apiJson({ log: result.log })
+  } catch (error) {
+    console.error('Error updating log:', error)
+    return apiError(500, 'internal_error', 'Could not update log')
+  }
+}
+
+// Permanent deletion; moving an entry to the trash is a PATCH setting deletedAt
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const auth = await authenticateApiRequest(request, 'write')
+  if (auth.response) return auth.response
+  const { supabase, userId } = auth
+
+  try {
+    const log = await deleteLog(supabase, id)
+    if (!log) {
+      return apiError(404, 'not_found', 'Log not found')
+    }
+    await dispatchLogEvent(supabase, userId, 'log.deleted', log)
+    return apiJson({ deleted: true })
+  } catch (error) {
+    console.error('Error deleting log:', error)
+    return apiError(500, 'internal_error', 'Could not delete log')
+  }
+}
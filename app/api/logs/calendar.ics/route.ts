@@ -0,0 +1,33 @@
+import { type NextRequest } from 'next/server'
+import { authenticateFeedRequest } from '@/lib/logs/auth'
+import { listLogs } from '@/lib/logs/server'
+import { apiError, MAX_PAGE_SIZE, type LogPosition } from '@/lib/logs/api'
+import { logsToIcs } from '@/lib/logs/ics'
+import type { LogEntry } from '@/lib/logs/types'
+
+// Calendar subscription feed: /api/logs/calendar.ics?token=<read-only API token> (see docs/api.md)
+export async function GET(request: NextRequest) {
+  const auth = await authenticateFeedRequest(request)
+  if (auth.response) return auth.response
+  const { supabase } = auth
+
+  try {
+    const logs: LogEntry[] = []
+    let after: LogPosition | undefined
+    do {
+      const page = await listLogs(supabase, { deleted: 'exclude', limit: MAX_PAGE_SIZE, after })
+      logs.push(...page.logs)
+      after = page.next ?? undefined
+    } while (after)
+
+    return new Response(logsToIcs(logs), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, max-age=300'
+      }
+    })
+  } catch (error) {
+    console.error('Error building calendar feed:', error)
+    return apiError(500, 'internal_error', 'Could not build calendar feed')
+  }
+}
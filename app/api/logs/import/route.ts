@@ -0,0 +1,63 @@
+import { type NextRequest } from 'next/server'
+import { authenticateApiRequest } from '@/lib/logs/auth'
+import { importLogs } from '@/lib/logs/server'
+import { parseLogEntry, type ValidationIssue } from '@/lib/logs/validation'
+import { LOGS_API_VERSION, MAX_IMPORT_SIZE, apiJson, apiError, validationError } from '@/lib/logs/api'
+import { checkLogImportLimit } from '@/lib/logs/rate-limits'
+import { rateLimitResponse, withRateLimitHeaders } from '@/lib/rate-limit/limiter'
+import { dispatchLogEvents } from '@/lib/webhooks/server'
+import type { LogEntry } from '@/lib/logs/types'
+
+// Bulk import used when a guest's local logs are moved into their account, and by file imports
+export async function POST(request: NextRequest) {
+  const auth = await authenticateApiRequest(request, 'write')
+  if (auth.response) return auth.response
+  const { supabase, userId } = auth
+
+  const body = await request.json().catch(() => null)
+  if (!Array.isArray(body?.logs)) {
+    return validationError([{ field: 'logs', code: 'invalid_type', message: 'logs must be an array' }])
+  }
+  if (body.logs.length > MAX_IMPORT_SIZE) {
+    return validationError([
+      { field: 'logs', code: 'too_long', message: `logs must have at most ${MAX_IMPORT_SIZE} entries` }
+    ])
+  }
+
+  const entries: LogEntry[] = []
+  const errors: { index: number; issues: ValidationIssue[] }[] = []
+  body.logs.forEach((item: unknown, index: number) => {
+    const parsed = parseLogEntry(item)
+    if (parsed.error !== undefined) {
+      errors.push({ index, issues: parsed.issues })
+    } else {
+      entries.push(parsed.value)
+    }
+  })
+
+  // Every valid entry counts, including ones skipped as duplicates
+  const rateLimit = entries.length > 0 ? await checkLogImportLimit(request, userId, entries.length) : null
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitResponse(
+      rateLimit,
+      'You are importing entries too quickly. Please wait a while and try again.',
+      { version: LOGS_API_VERSION }
+    )
+  }
+
+  try {
+    const imported = await importLogs(supabase, userId, entries)
+    await dispatchLogEvents(supabase, userId, 'log.created', imported)
+    const response = apiJson({
+      logs: imported,
+      imported: imported.length,
+      skipped: entries.length - imported.length,
+      invalid: errors.length,
+      errors
+    })
+    return rateLimit ? withRateLimitHeaders(response, rateLimit) : response
+  } catch (error) {
+    console.error('Error importing logs:', error)
+    return apiError(500, 'internal_error', 'Could not import logs')
+  }
+}
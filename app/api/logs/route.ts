@@ -0,0 +1,65 @@
+import { type NextRequest } from 'next/server'
+import { authenticateApiRequest } from '@/lib/logs/auth'
+import { listLogs, insertLog } from '@/lib/logs/server'
+import { parseLogEntry, parseEditedAt } from '@/lib/logs/validation'
+import { LOGS_API_VERSION, apiJson, apiError, validationError, encodeCursor, parseListQuery } from '@/lib/logs/api'
+import { checkLogCreateLimit } from '@/lib/logs/rate-limits'
+import { rateLimitResponse, withRateLimitHeaders } from '@/lib/rate-limit/limiter'
+import { dispatchLogEvent } from '@/lib/webhooks/server'
+
+// List entries newest first: ?from=&to=&deleted=&limit=&cursor= (see docs/api.md)
+export async function GET(request: NextRequest) {
+  const auth = await authenticateApiRequest(request, 'read')
+  if (auth.response) return auth.response
+  const { supabase } = auth
+
+  const query = parseListQuery(request.nextUrl.searchParams)
+  if (query.issues !== undefined) {
+    return validationError(query.issues)
+  }
+
+  try {
+    const page = await listLogs(supabase, query.value)
+    return apiJson({ logs: page.logs, nextCursor: page.next ? encodeCursor(page.next) : null })
+  } catch (error) {
+    console.error('Error listing logs:', error)
+    return apiError(500, 'internal_error', 'Could not load logs')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateApiRequest(request, 'write')
+  if (auth.response) return auth.response
+  const { supabase, userId } = auth
+
+  // Scripts may leave out the id and timestamp; the tracker always sends both
+  const body = await request.json().catch(() => null)
+  const parsed = parseLogEntry(body && typeof body === 'object' && !Array.isArray(body)
+    ? { id: crypto.randomUUID(), timestamp: new Date().toISOString(), ...body }
+    : body)
+  if (parsed.error !== undefined) {
+    return validationError(parsed.issues)
+  }
+
+  const rateLimit = await checkLogCreateLimit(request, userId)
+  if (!rateLimit.allowed) {
+    return rateLimitResponse(
+      rateLimit,
+      'You are logging entries too quickly. Please wait a moment and try again.',
+      { version: LOGS_API_VERSION }
+    )
+  }
+
+  try {
+    const log = await insertLog(supabase, userId, parsed.value, parseEditedAt(body))
+    await dispatchLogEvent(supabase, userId, 'log.created', log)
+    return withRateLimitHeaders(apiJson({ log }, { status: 201 }), rateLimit)
+  } catch (error) {
+    // Unique violation: a retried create whose first attempt already landed
+    if ((error as { code?: string }).code === '23505') {
+      return apiError(409, 'conflict', 'Log already exists')
+    }
+    console.error('Error creating log:', error)
+    return apiError(500, 'internal_error', 'Could not save log')
+  }
+}
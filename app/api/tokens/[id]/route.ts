@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { revokeToken } from '@/lib/tokens/server'
+
+// Revoking keeps the record so the token's name and last use stay visible
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  try {
+    const apiToken = await revokeToken(supabase, id)
+    if (!apiToken) {
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+    }
+    return NextResponse.json({ apiToken })
+  } catch (error) {
+    console.error('Error revoking API token:', error)
+    return NextResponse.json({ error: 'Could not revoke API token' }, { status: 500 })
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { listTokens, createToken, parseTokenInput } from '@/lib/tokens/server'
+
+// Token management needs a signed-in session; API tokens cannot mint or revoke other tokens
+
+export async function GET() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  try {
+    const tokens = await listTokens(supabase)
+    return NextResponse.json({ tokens })
+  } catch (error) {
+    console.error('Error listing API tokens:', error)
+    return NextResponse.json({ error: 'Could not load API tokens' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const parsed = parseTokenInput(await request.json().catch(() => null))
+  if (parsed.error !== undefined) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  try {
+    const { token, apiToken } = await createToken(supabase, user.id, parsed.value.name, parsed.value.scope)
+    return NextResponse.json({ token, apiToken }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating API token:', error)
+    return NextResponse.json({ error: 'Could not create API token' }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { deleteWebhook } from '@/lib/webhooks/server'
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  try {
+    const deleted = await deleteWebhook(supabase, id)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+    }
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    console.error('Error deleting webhook:', error)
+    return NextResponse.json({ error: 'Could not delete webhook' }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { sendTestEvent } from '@/lib/webhooks/server'
+
+// Sends a webhook.test event and waits for the receiver, so the result can be shown right away
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  try {
+    const delivery = await sendTestEvent(supabase, user.id, id)
+    if (!delivery) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+    }
+    return NextResponse.json({ delivery })
+  } catch (error) {
+    console.error('Error sending test event:', error)
+    return NextResponse.json({ error: 'Could not send test event' }, { status: 500 })
+  }
+}
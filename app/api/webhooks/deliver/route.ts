@@ -0,0 +1,37 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { NextResponse, type NextRequest } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/server'
+import { drainDueWebhooks } from '@/lib/webhooks/server'
+
+// Leaves headroom under the function timeout and the service client's token lifetime
+const DRAIN_BUDGET_MS = 45 * 1000
+
+export const maxDuration = 60
+
+// Compares digests so neither the secret's length nor its contents leak through timing
+const matchesSecret = (header: string | null, secret: string) =>
+  header !== null && timingSafeEqual(
+    createHash('sha256').update(header).digest(),
+    createHash('sha256').update(`Bearer ${secret}`).digest()
+  )
+
+// Sends due webhook retries for every account. Vercel cron calls it every minute (see
+// vercel.json) with `Authorization: Bearer $CRON_SECRET`; any other scheduler can do the same.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    console.error('CRON_SECRET is not set; webhook retries only run when users are active')
+    return NextResponse.json({ error: 'Not configured' }, { status: 503 })
+  }
+  if (!matchesSecret(request.headers.get('authorization'), secret)) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  try {
+    const delivered = await drainDueWebhooks(createServiceClient(), DRAIN_BUDGET_MS)
+    return NextResponse.json({ delivered })
+  } catch (error) {
+    console.error('Error delivering due webhooks:', error)
+    return NextResponse.json({ error: 'Could not deliver webhooks' }, { status: 500 })
+  }
+}
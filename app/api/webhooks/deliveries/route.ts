@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { listDeliveries, deliverDueWebhooks } from '@/lib/webhooks/server'
+
+// Most recent deliveries across all webhooks. Due retries are sent first so the log is current.
+export async function GET() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  try {
+    await deliverDueWebhooks(supabase)
+    const deliveries = await listDeliveries(supabase)
+    return NextResponse.json({ deliveries })
+  } catch (error) {
+    console.error('Error listing webhook deliveries:', error)
+    return NextResponse.json({ error: 'Could not load webhook deliveries' }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { listWebhooks, createWebhook, parseWebhookInput } from '@/lib/webhooks/server'
+import { checkWebhookTarget } from '@/lib/webhooks/targets'
+
+// Webhook management needs a signed-in session, like API tokens
+
+export async function GET() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  try {
+    const webhooks = await listWebhooks(supabase)
+    return NextResponse.json({ webhooks })
+  } catch (error) {
+    console.error('Error listing webhooks:', error)
+    return NextResponse.json({ error: 'Could not load webhooks' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const parsed = parseWebhookInput(await request.json().catch(() => null))
+  if (parsed.error !== undefined) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+  const targetError = await checkWebhookTarget(parsed.value.url)
+  if (targetError) {
+    return NextResponse.json({ error: targetError }, { status: 400 })
+  }
+
+  try {
+    const webhook = await createWebhook(supabase, user.id, parsed.value.url)
+    return NextResponse.json({ webhook }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating webhook:', error)
+    return NextResponse.json({ error: 'Could not create webhook' }, { status: 500 })
+  }
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { useMemo } from 'react'
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { useAccountLogs } from '@/hooks/use-account-logs'
+import { parseLocalDateKey } from '@/lib/logs/days'
+import { formatEnergy } from '@/lib/insights/colors'
+import { getJointDistribution } from '@/lib/insights/correlation'
+import { MIN_ENTRIES_FOR_PATTERNS, buildEnergyHeatmap, getAttentionBySlot, getEntryCounts } from '@/lib/insights/patterns'
+import { EnergyHeatmap } from '@/components/insights/energy-heatmap'
+import { AttentionBySlot } from '@/components/insights/attention-by-slot'
+import { EnergyAttentionCorrelation } from '@/components/insights/energy-attention-correlation'
+import { StateTransitions } from '@/components/insights/state-transitions'
+import { CircadianCurve } from '@/components/insights/circadian-curve'
+import { EnergyTrends } from '@/components/insights/energy-trends'
+import { PeriodComparison } from '@/components/insights/period-comparison'
+import { KeywordImpact } from '@/components/insights/keyword-impact'
+
+const formatDay = (key: string) =>
+  parseLocalDateKey(key).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+
+// Patterns in a signed-in user's history, computed in the browser from their entries
+export default function InsightsPage() {
+  const { userId, logs, isOffline } = useAccountLogs()
+
+  const counts = useMemo(() => getEntryCounts(logs ?? []), [logs])
+  const heatmap = useMemo(() => buildEnergyHeatmap(logs ?? []), [logs])
+  const slots = useMemo(() => getAttentionBySlot(logs ?? []), [logs])
+  const distribution = useMemo(() => getJointDistribution(logs ?? []), [logs])
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 pb-safe">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6 space-y-4 sm:space-y-6">
+          <div className="flex items-center gap-3">
+            <Link href="/" className="p-2 hover:bg-gray-100 rounded-lg transition-colors" aria-label="Back to tracker">
+              <ArrowLeft className="w-5 h-5 text-gray-600" />
+            </Link>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-800">Insights</h1>
+          </div>
+
+          {logs === null ? (
+            <p className="text-sm text-gray-500 py-4 text-center">Loading...</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-2 sm:gap-4">
+                {[
+                  ['Entries', String(counts.entries)],
+                  ['Days logged', String(counts.days)],
+                  ['Average energy', counts.averageEnergy === null ? '–' : formatEnergy(counts.averageEnergy)]
+                ].map(([label, value]) => (
+                  <div key={label} className="bg-gray-50 rounded-lg p-3 text-center">
+                    <p className="text-lg sm:text-2xl font-bold text-gray-800 tabular-nums">{value}</p>
+                    <p className="text-[10px] sm:text-xs text-gray-500">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {counts.firstDay && counts.lastDay && (
+                <p className="text-xs text-gray-500">
+                  {formatDay(counts.firstDay)} – {formatDay(counts.lastDay)} • {counts.perLoggedDay.toFixed(1)} entries per logged day
+                </p>
+              )}
+
+              {isOffline && (
+                <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2">
+                  Couldn&apos;t reach the server, so this is based on the entries last synced to this device.
+                </p>
+              )}
+
+              {counts.entries === 0 ? (
+                <p className="text-sm text-gray-500 py-4 text-center">
+                  No entries yet. Log a few and your patterns will show up here.
+                </p>
+              ) : counts.entries < MIN_ENTRIES_FOR_PATTERNS && (
+                <p className="text-xs text-gray-600 bg-indigo-50 rounded-lg px-3 py-2">
+                  Early days: with {counts.entries} {counts.entries === 1 ? 'entry' : 'entries'}, these charts show
+                  where your logs fall more than reliable patterns. They firm up after about {MIN_ENTRIES_FOR_PATTERNS}.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        {userId && logs !== null && logs.length > 0 && (
+          <>
+            <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6">
+              <CircadianCurve userId={userId} logs={logs} />
+            </div>
+            <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6">
+              <EnergyHeatmap heatmap={heatmap} />
+            </div>
+            <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6">
+              <AttentionBySlot slots={slots} />
+            </div>
+            <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6">
+              <EnergyAttentionCorrelation distribution={distribution} />
+            </div>
+            <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6">
+              <StateTransitions logs={logs} />
+            </div>
+            <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6">
+              <EnergyTrends logs={logs} />
+            </div>
+            <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6">
+              <PeriodComparison logs={logs} />
+            </div>
+            <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6">
+              <KeywordImpact logs={logs} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
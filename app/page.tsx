@@ -1,90 +1,164 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { Upload, CheckCircle, MoreVertical, LogOut, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Edit3, Check, X } from 'lucide-react'
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { Upload, CheckCircle, MoreVertical, BarChart3, KeyRound, Webhook, LogOut, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Edit3, Pencil, Check, X, Trash2, History, CalendarDays, List, Clock, Cloud, CloudUpload, CloudAlert } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
 import type { User } from '@supabase/supabase-js'
+import type { LogEntry } from '@/lib/logs/types'
+import { mergeLogUpdate, type LogUpdate } from '@/lib/logs/validation'
+import { MAX_NOTE_LENGTH, energyLevels, attentionStates } from '@/lib/logs/constants'
+import { calculateStreakFromLogs } from '@/lib/logs/streaks'
+import { isExpiredFromTrash } from '@/lib/logs/trash'
+import { fetchRemoteLogs, fetchRemoteRevisions, importRemoteLogs, deleteRemoteLog, RemoteError } from '@/lib/logs/remote'
+import {
+  diffLog,
+  getRevertUpdate,
+  getLocalRevisions,
+  recordLocalRevision,
+  removeLocalRevisions,
+  clearLocalRevisions,
+  getRevisionImageRefs,
+  type LogRevision
+} from '@/lib/logs/revisions'
+import { findNewLogs } from '@/lib/logs/dedupe'
+import { logsToCsv, parseLogsCsv, type CsvRowError } from '@/lib/logs/csv'
+import { logsToIcs } from '@/lib/logs/ics'
+import { createDailyNotesArchive, saveMarkdownExportState, clearMarkdownExportState } from '@/lib/logs/markdown'
+import { clearCircadianState } from '@/lib/insights/circadian'
+import { readSourceTable } from '@/lib/imports/mapping'
+import type { SourceTable } from '@/lib/imports/types'
+import { getOperations, applyPendingOperations, readSnapshot, writeSnapshot, clearSnapshot, type OutboxOperation } from '@/lib/logs/outbox'
+import { useOutboxSync } from '@/hooks/use-outbox-sync'
+import { isLocalImageRef, isStorageImageRef, isLegacyImageRef } from '@/lib/images/refs'
+import { saveLocalImage, getStoredImage, deleteLocalImage, migrateLegacyImages, isQuotaExceededError } from '@/lib/images/local'
+import { uploadLocalImage, downloadStorageImage } from '@/lib/images/storage'
+import { processImage, type ProcessedImage } from '@/lib/images/pipeline'
+import { ACCEPTED_IMAGE_TYPES, validateImageFile } from '@/lib/images/validation'
+import { downloadBlob, getExportFilename } from '@/lib/download'
+import { getLocalDateKey, parseLocalDateKey } from '@/lib/logs/days'
+import { createBackupArchive, readBackupArchive, restoreBackupImages, BackupFormatError, type Backup, type BackupImage } from '@/lib/backup/archive'
+import { LogImage } from '@/components/log-image'
+import { UndoSnackbar } from '@/components/undo-snackbar'
+import { TrashList } from '@/components/trash-list'
+import { HistoryCalendar } from '@/components/history-calendar'
+import { DayTimeline } from '@/components/day-timeline'
+import { LogEntryEditor, type LogEntryEdit } from '@/components/log-entry-editor'
+import { LogMigrationPrompt } from '@/components/log-migration-prompt'
+import { RevisionList } from '@/components/revision-list'
+import { LogDataActions } from '@/components/log-data-actions'
+import { CsvImportPreview } from '@/components/csv-import-preview'
+import { SourceImportPreview } from '@/components/source-import-preview'
+import { BackupRestorePrompt, type RestoreMode } from '@/components/backup-restore-prompt'
 
 // Type definitions
-interface LogEntry {
-  id: string
-  timestamp: string
-  energy: number
-  energyLabel: string
-  attention: string
-  note: string | null
-  imagePreview: string | null
-}
+type HistoryView = 'list' | 'calendar' | 'timeline'
+
+const HISTORY_VIEWS: [HistoryView, typeof List][] = [
+  ['list', List],
+  ['calendar', CalendarDays],
+  ['timeline', Clock]
+]
 
 interface Celebration {
   emoji: string
   message: string
 }
 
-interface StreakData {
-  dailiesCount: number // Current day's track count (1-8)
-  dayCount: number // Number of consecutive days
-  weekCount: number // Number of consecutive weeks
-  monthCount: number // Number of consecutive months
-  yearCount: number // Number of consecutive years
-  currentTier: number // Current exponent tier (1-8)
-  lastLogDate: string | null
-  streakStartDate: string | null
+// A parsed CSV waiting for the user to confirm the import
+interface CsvImport {
+  fileName: string
+  logs: LogEntry[]
+  duplicateCount: number
+  errors: CsvRowError[]
+}
+
+// An opened backup waiting for the user to pick merge or replace
+interface BackupRestore {
+  fileName: string
+  backup: Backup
+  invalid: number
 }
 
 export default function TEATracker() {
   const [energy, setEnergy] = useState(3) // Default to Steady
   const [attention, setAttention] = useState('focused') // Default to Focused
   const [note, setNote] = useState('')
-  const [, setImage] = useState<File | null>(null)
+  const [image, setImage] = useState<ProcessedImage | null>(null)
   const [imagePreview, setImagePreview] = useState<string | null>(null)
+  const [isProcessingImage, setIsProcessingImage] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submitLimitUntil, setSubmitLimitUntil] = useState<number | null>(null)
   const [, setShowSuccess] = useState(false)
   const [celebration, setCelebration] = useState<Celebration | null>(null)
   const [isAuthenticated, setIsAuthenticated] = useState(false)
-  const [, setUser] = useState<User | null>(null)
-  const [, setIsLoading] = useState(true)
+  const [user, setUser] = useState<User | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
   const [logs, setLogs] = useState<LogEntry[]>([])
+  // Whether logs holds the loaded entries yet, rather than the empty starting list
+  const [hasLoadedLogs, setHasLoadedLogs] = useState(false)
   const [showMenu, setShowMenu] = useState(false)
   const [expandedImage, setExpandedImage] = useState<string | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
-  const [streakData, setStreakData] = useState<StreakData>({
-    dailiesCount: 0,
-    dayCount: 0,
-    weekCount: 0,
-    monthCount: 0,
-    yearCount: 0,
-    currentTier: 1,
-    lastLogDate: null,
-    streakStartDate: null
-  })
   const [isSimplifiedMode, setIsSimplifiedMode] = useState(false)
   const [editingTimestamp, setEditingTimestamp] = useState<string | null>(null)
   const [editTimestampValue, setEditTimestampValue] = useState('')
+  const [pendingLocalLogs, setPendingLocalLogs] = useState<LogEntry[]>([])
+  const [isImportingLocalLogs, setIsImportingLocalLogs] = useState(false)
+  const [deletedLogId, setDeletedLogId] = useState<string | null>(null)
+  const [showTrash, setShowTrash] = useState(false)
+  const [editingLogId, setEditingLogId] = useState<string | null>(null)
+  const [revisionsLogId, setRevisionsLogId] = useState<string | null>(null)
+  const [isSavingEdit, setIsSavingEdit] = useState(false)
+  const [csvImport, setCsvImport] = useState<CsvImport | null>(null)
+  const [isImportingCsv, setIsImportingCsv] = useState(false)
+  const [sourceImport, setSourceImport] = useState<{ fileName: string; table: SourceTable } | null>(null)
+  const [isImportingSource, setIsImportingSource] = useState(false)
+  const [isBackingUp, setIsBackingUp] = useState(false)
+  const [isExportingNotes, setIsExportingNotes] = useState(false)
+  const [backupRestore, setBackupRestore] = useState<BackupRestore | null>(null)
+  const [restoringMode, setRestoringMode] = useState<RestoreMode | null>(null)
+  const [historyDay, setHistoryDay] = useState<string | null>(null)
+  const [historyView, setHistoryView] = useState<HistoryView>('list')
 
   const router = useRouter()
   const supabase = createClient()
+  const userId = isAuthenticated ? user?.id ?? null : null
 
-  const MAX_NOTE_LENGTH = 100
-  const MAX_FILE_SIZE = 5 * 1024 * 1024 // 5MB
   const ITEMS_PER_PAGE = 10
+  const IMPORT_BATCH_SIZE = 20 // Keeps each request small when entries carry screenshots
+  const SUBMIT_COOLDOWN_MS = 5000
+
+  // Trashed entries stay in logs until purged but are hidden from History and streaks
+  const activeLogs = useMemo(() => logs.filter(log => !log.deletedAt), [logs])
+  const trashedLogs = useMemo(
+    () => logs
+      .filter(log => log.deletedAt)
+      .sort((a, b) => new Date(b.deletedAt as string).getTime() - new Date(a.deletedAt as string).getTime()),
+    [logs]
+  )
+
+  // Streaks are derived from the active logs so every add, edit, delete or restore recomputes them
+  const streakData = useMemo(() => calculateStreakFromLogs(activeLogs), [activeLogs])
 
-  // Energy levels with past tense labels
-  const energyLevels = [
-    { value: 1, label: 'Exhausted', icon: '🪫', color: '#ef4444' },
-    { value: 2, label: 'Drained', icon: '☕', color: '#f97316' },
-    { value: 3, label: 'Steady', icon: '🔋', color: '#eab308' },
-    { value: 4, label: 'Energized', icon: '✨', color: '#84cc16' },
-    { value: 5, label: 'Peaked', icon: '🚀', color: '#22c55e' }
-  ]
+  // History can be narrowed to one day, e.g. when following a link from insights
+  const historyLogs = useMemo(
+    () => historyDay ? activeLogs.filter(log => getLocalDateKey(log.timestamp) === historyDay) : activeLogs,
+    [activeLogs, historyDay]
+  )
+
+  // The timeline opens on the selected day, else the latest day with entries
+  const timelineDay = historyDay ?? activeLogs.reduce<string | null>((latest, log) => {
+    const day = getLocalDateKey(log.timestamp)
+    return latest === null || day > latest ? day : latest
+  }, null) ?? getLocalDateKey(new Date())
 
   // Pagination calculations
-  const totalPages = Math.ceil(logs.length / ITEMS_PER_PAGE)
+  const totalPages = Math.ceil(historyLogs.length / ITEMS_PER_PAGE)
   const startIndex = (currentPage - 1) * ITEMS_PER_PAGE
   const endIndex = startIndex + ITEMS_PER_PAGE
-  const currentLogs = isAuthenticated ? logs.slice(startIndex, endIndex) : logs.slice(0, ITEMS_PER_PAGE)
-  const showPagination = isAuthenticated && logs.length > ITEMS_PER_PAGE
+  const currentLogs = isAuthenticated ? historyLogs.slice(startIndex, endIndex) : historyLogs.slice(0, ITEMS_PER_PAGE)
+  const showPagination = isAuthenticated && historyLogs.length > ITEMS_PER_PAGE
 
   // Pagination handlers
   const goToNextPage = () => {
@@ -99,128 +173,27 @@ export default function TEATracker() {
     }
   }
 
-  // Enhanced exponential streak calculation
-  const calculateStreakFromLogs = (logs: LogEntry[]): StreakData => {
-    if (logs.length === 0) {
-      return {
-        dailiesCount: 0,
-        dayCount: 0,
-        weekCount: 0,
-        monthCount: 0,
-        yearCount: 0,
-        currentTier: 1,
-        lastLogDate: null,
-        streakStartDate: null
-      }
-    }
-
-    // Sort logs by date (newest first)
-    const sortedLogs = [...logs].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-    
-    // Group logs by date and count dailies per day
-    const logsByDate = new Map<string, number>()
-    sortedLogs.forEach(log => {
-      const dateKey = new Date(log.timestamp).toDateString()
-      logsByDate.set(dateKey, (logsByDate.get(dateKey) || 0) + 1)
-    })
-
-    // Get sorted unique dates
-    const uniqueDates = Array.from(logsByDate.keys()).sort((a, b) => new Date(b).getTime() - new Date(a).getTime())
-    
-    if (uniqueDates.length === 0) {
-      return {
-        dailiesCount: 0,
-        dayCount: 0,
-        weekCount: 0,
-        monthCount: 0,
-        yearCount: 0,
-        currentTier: 1,
-        lastLogDate: null,
-        streakStartDate: null
-      }
-    }
-
-    const now = new Date()
-    const today = now.toDateString()
-    const gracePeriod = new Date(now.getTime() - 36 * 60 * 60 * 1000).toDateString() // 36 hours ago
-
-    // Check if we're within grace period
-    const latestDate = uniqueDates[0]
-    const isWithinGracePeriod = latestDate === today || new Date(latestDate) >= new Date(gracePeriod)
-
-    if (!isWithinGracePeriod) {
-      return {
-        dailiesCount: 0,
-        dayCount: 0,
-        weekCount: 0,
-        monthCount: 0,
-        yearCount: 0,
-        currentTier: 1,
-        lastLogDate: sortedLogs[0].timestamp,
-        streakStartDate: null
-      }
-    }
-
-    // Calculate current day's dailies count
-    const todayCount = logsByDate.get(today) || 0
-    const latestDayCount = logsByDate.get(latestDate) || 0
-    const dailiesCount = Math.min(todayCount > 0 ? todayCount : latestDayCount, 8)
-
-    // Calculate consecutive days and current tier
-    let dayCount = 0
-    let currentTier = 1
-    let streakStartDate: string | null = null
-    let currentDayTier = 1
-
-    // Find consecutive days and track tier consistency
-    for (let i = 0; i < uniqueDates.length; i++) {
-      const currentDate = new Date(uniqueDates[i])
-      const dailiesForDay = Math.min(logsByDate.get(uniqueDates[i]) || 0, 8)
-      
-      if (i === 0) {
-        // First day sets the initial tier
-        currentDayTier = dailiesForDay
-        dayCount = 1
-        streakStartDate = uniqueDates[i]
-      } else {
-        // Check if this day is consecutive (within 36 hours)
-        const prevDate = new Date(uniqueDates[i-1])
-        const timeDiff = prevDate.getTime() - currentDate.getTime()
-        const daysDiff = timeDiff / (24 * 60 * 60 * 1000)
-        
-        if (daysDiff <= 1.5) { // Within 36 hours
-          dayCount++
-          streakStartDate = uniqueDates[i]
-          
-          // Update tier based on minimum consistent level
-          if (dailiesForDay < currentDayTier) {
-            currentDayTier = dailiesForDay
-          }
-        } else {
-          break
-        }
-      }
+  // Links from insights open History on one day as /?day=YYYY-MM-DD
+  useEffect(() => {
+    const day = new URLSearchParams(window.location.search).get('day')
+    if (day && /^\d{4}-\d{2}-\d{2}$/.test(day)) {
+      setHistoryDay(day)
     }
+  }, [])
 
-    currentTier = Math.max(currentDayTier, 1)
-
-    // Calculate weeks, months, years
-    const weekCount = Math.floor(dayCount / 7)
-    const monthCount = Math.floor(weekCount / 4)
-    const yearCount = Math.floor(monthCount / 12)
-
-    return {
-      dailiesCount,
-      dayCount,
-      weekCount,
-      monthCount,
-      yearCount,
-      currentTier,
-      lastLogDate: sortedLogs[0].timestamp,
-      streakStartDate
-    }
+  const showAllHistory = () => {
+    setHistoryDay(null)
+    setCurrentPage(1)
+    router.replace('/')
   }
 
+  // Hide the "wait a moment" notice once the cooldown is over
+  useEffect(() => {
+    if (!submitLimitUntil) return
+    const timer = setTimeout(() => setSubmitLimitUntil(null), Math.max(submitLimitUntil - Date.now(), 0))
+    return () => clearTimeout(timer)
+  }, [submitLimitUntil])
+
   // Initialize authentication and load data
   useEffect(() => {
     const initializeAuth = async () => {
@@ -253,17 +226,6 @@ export default function TEATracker() {
 
     initializeAuth()
 
-    // Load logs and calculate streaks from localStorage
-    const savedLogs = localStorage.getItem('tea-logs')
-    if (savedLogs) {
-      const parsedLogs = JSON.parse(savedLogs)
-      setLogs(parsedLogs)
-      
-      // Calculate and set streak data
-      const calculatedStreaks = calculateStreakFromLogs(parsedLogs)
-      setStreakData(calculatedStreaks)
-    }
-
     // Load simplified mode preference
     const simplifiedMode = localStorage.getItem('tea-simplified-mode')
     if (simplifiedMode === 'true') {
@@ -274,6 +236,152 @@ export default function TEATracker() {
     return () => subscription.unsubscribe()
   }, [supabase.auth])
 
+  // Save logs where they live: IndexedDB cache for users (the outbox syncs them), localStorage for guests
+  const persistLogs = (updatedLogs: LogEntry[]) => {
+    if (userId) {
+      writeSnapshot(userId, updatedLogs).catch(error => console.error('Error caching logs:', error))
+      return
+    }
+
+    try {
+      localStorage.setItem('tea-logs', JSON.stringify(updatedLogs))
+    } catch (error) {
+      console.error('Error saving logs:', error)
+      alert(isQuotaExceededError(error)
+        ? 'Your browser storage is full, so this change could not be saved. Sign up to keep your logs in your account.'
+        : 'Could not save your logs on this device.')
+    }
+  }
+
+  // Another device's newer edit won over ours, so show the server's version
+  const handleSyncConflict = (serverLog: LogEntry) => {
+    const updatedLogs = logs.map(log => log.id === serverLog.id ? serverLog : log)
+    setLogs(updatedLogs)
+    persistLogs(updatedLogs)
+  }
+
+  // A screenshot taken on this device finished uploading, so point the entry at the stored copy
+  const handleImageUploaded = (logId: string, imageRef: string) => {
+    const updatedLogs = logs.map(log => log.id === logId ? { ...log, imageRef } : log)
+    setLogs(updatedLogs)
+    persistLogs(updatedLogs)
+  }
+
+  const { statuses: syncStatuses, rateLimit: syncRateLimit, enqueue, retry: retrySync } = useOutboxSync({
+    userId,
+    onConflict: handleSyncConflict,
+    onImageUploaded: handleImageUploaded
+  })
+
+  // Apply a change to one entry locally and queue it for the account; returns false if it could not be saved
+  const applyLogUpdate = async (logId: string, update: LogUpdate): Promise<boolean> => {
+    if (userId) {
+      try {
+        await enqueue({ type: 'update', logId, payload: update, editedAt: new Date().toISOString() })
+      } catch (error) {
+        console.error('Error updating log:', error)
+        alert('Could not update this log. Please try again.')
+        return false
+      }
+    }
+
+    const updatedLogs = logs.map(log => {
+      if (log.id !== logId) return log
+      const merged = mergeLogUpdate(log, update)
+      // The database records users' revisions; guests keep theirs next to their logs
+      if (!userId) {
+        recordLocalRevision(logId, diffLog(log, merged))
+      }
+      return merged
+    })
+    setLogs(updatedLogs)
+    persistLogs(updatedLogs)
+    return true
+  }
+
+  const loadRevisions = useCallback(async (logId: string): Promise<LogRevision[]> => {
+    if (userId) {
+      return fetchRemoteRevisions(logId)
+    }
+    return getLocalRevisions().filter(revision => revision.logId === logId)
+  }, [userId])
+
+  const handleRevertLog = async (log: LogEntry, revisions: LogRevision[], revisionId: string) => {
+    const update = getRevertUpdate(log, revisions, revisionId)
+    if (Object.keys(update).length === 0) return
+    if (!confirm('Restore this entry to how it was before this change? The revert is recorded as a new change.')) return
+    await applyLogUpdate(log.id, update)
+  }
+
+  // Load logs once auth has settled: from the account for users, from localStorage for guests
+  useEffect(() => {
+    if (isLoading) return
+
+    const loadLogs = async () => {
+      let loadedLogs: LogEntry[] = []
+
+      if (userId) {
+        // Show the last synced copy plus unsynced writes right away, then refresh from the server
+        const operations = await getOperations(userId).catch(() => [] as OutboxOperation[])
+        const snapshot = await readSnapshot(userId).catch(() => null)
+        loadedLogs = applyPendingOperations(snapshot ?? [], operations)
+        if (snapshot) {
+          setLogs(loadedLogs)
+        }
+
+        try {
+          loadedLogs = applyPendingOperations(await fetchRemoteLogs(), operations)
+          writeSnapshot(userId, loadedLogs).catch(error => console.error('Error caching logs:', error))
+
+          // Offer to import logs this browser collected before signing in
+          const savedLogs = localStorage.getItem('tea-logs')
+          if (savedLogs) {
+            const newLocalLogs = findNewLogs(loadedLogs, JSON.parse(savedLogs) as LogEntry[])
+            if (newLocalLogs.length > 0) {
+              setPendingLocalLogs(newLocalLogs)
+            } else {
+              localStorage.removeItem('tea-logs')
+            }
+          }
+        } catch (error) {
+          console.error('Error loading logs:', error)
+        }
+      } else {
+        const savedLogs = localStorage.getItem('tea-logs')
+        if (savedLogs) {
+          // Older entries embedded screenshots as data URLs; move them to IndexedDB to free up localStorage
+          const { logs: migratedLogs, changed } = await migrateLegacyImages(JSON.parse(savedLogs))
+          loadedLogs = migratedLogs
+          if (changed) {
+            localStorage.setItem('tea-logs', JSON.stringify(migratedLogs))
+          }
+        }
+      }
+
+      // Entries that outlived the trash retention period are purged for good
+      const expiredLogs = loadedLogs.filter(log => isExpiredFromTrash(log))
+      if (expiredLogs.length > 0) {
+        loadedLogs = loadedLogs.filter(log => !isExpiredFromTrash(log))
+        for (const log of expiredLogs) {
+          if (userId) {
+            await enqueue({ type: 'delete', logId: log.id }).catch(error => console.error('Error purging log:', error))
+          } else if (log.imageRef && isLocalImageRef(log.imageRef)) {
+            await deleteLocalImage(log.imageRef).catch(() => undefined)
+          }
+        }
+        if (!userId) {
+          localStorage.setItem('tea-logs', JSON.stringify(loadedLogs))
+        }
+      }
+
+      setLogs(loadedLogs)
+      setHasLoadedLogs(true)
+    }
+
+    setHasLoadedLogs(false)
+    loadLogs()
+  }, [userId, isLoading, enqueue])
+
   // Toggle simplified mode and save preference
   const toggleSimplifiedMode = () => {
     const newMode = !isSimplifiedMode
@@ -281,13 +389,6 @@ export default function TEATracker() {
     localStorage.setItem('tea-simplified-mode', newMode.toString())
   }
 
-  // Attention states with consistent tense
-  const attentionStates = [
-    { value: 'scattered', label: 'Scattered', emoji: '🌪️' },
-    { value: 'focused', label: 'Focused', emoji: '💡' },
-    { value: 'hyperfocused', label: 'Hyperfocused', emoji: '🎯' }
-  ]
-
   // Enhanced celebration system with variety and context
   const getCelebration = (): Celebration => {
     const basicCelebrations: Celebration[] = [
@@ -373,43 +474,58 @@ export default function TEATracker() {
     }
   }
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
-      // Check file type
-      const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp']
-      if (!validTypes.includes(file.type)) {
-        alert('Please upload an image file (JPEG, PNG, GIF, or WebP)')
+      // Check file type and size
+      const imageError = validateImageFile(file)
+      if (imageError) {
+        alert(imageError)
         return
       }
 
-      // Check file size
-      if (file.size > MAX_FILE_SIZE) {
-        alert('File size must be less than 5MB')
-        return
+      // Resize, strip EXIF and build the History thumbnail before anything is stored
+      setIsProcessingImage(true)
+      try {
+        const processed = await processImage(file)
+        setImage(processed)
+        if (imagePreview) URL.revokeObjectURL(imagePreview)
+        setImagePreview(URL.createObjectURL(processed.full))
+      } catch (error) {
+        console.error('Error processing image:', error)
+        alert('Could not read that image. Please try a different file.')
+      } finally {
+        setIsProcessingImage(false)
       }
-
-      setImage(file)
-      const reader = new FileReader()
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string)
-      }
-      reader.readAsDataURL(file)
     }
   }
 
   const handleSubmit = async () => {
-    // Simple client-side rate limiting
+    // Quick client-side check; the server enforces the real limit for users' logs
     const lastSubmit = localStorage.getItem('last-tea-submit')
     const now = Date.now()
-    if (lastSubmit && now - parseInt(lastSubmit) < 5000) { // 5 seconds
-      alert('Please wait a few seconds before logging another entry')
+    if (lastSubmit && now - parseInt(lastSubmit) < SUBMIT_COOLDOWN_MS) {
+      setSubmitLimitUntil(parseInt(lastSubmit) + SUBMIT_COOLDOWN_MS)
       return
     }
     localStorage.setItem('last-tea-submit', now.toString())
+    setSubmitLimitUntil(null)
 
     setIsSubmitting(true)
 
+    // Screenshots are stored as blobs on this device; users' copies upload when the entry syncs
+    let imageRef: string | null = null
+    if (image) {
+      try {
+        imageRef = await saveLocalImage(image.full, image.thumbnail)
+      } catch (error) {
+        console.error('Error storing screenshot:', error)
+        alert(isQuotaExceededError(error)
+          ? 'Your browser storage is full, so this entry will be saved without its screenshot.'
+          : 'Could not store the screenshot, so this entry will be saved without it.')
+      }
+    }
+
     const selectedEnergy = energyLevels.find(l => l.value === energy)
     const newLog: LogEntry = {
       id: Date.now().toString(),
@@ -418,17 +534,25 @@ export default function TEATracker() {
       energyLabel: selectedEnergy?.label || '',
       attention: attention,
       note: note || null,
-      imagePreview: imagePreview,
+      imageRef,
+    }
+
+    // Users' logs go to the outbox first so logging works offline; guests' logs stay in localStorage
+    if (userId) {
+      try {
+        await enqueue({ type: 'create', logId: newLog.id, payload: newLog })
+      } catch (error) {
+        console.error('Error saving log:', error)
+        alert('Could not save your log. Please try again.')
+        setIsSubmitting(false)
+        return
+      }
     }
 
     // Save to logs
     const updatedLogs = [newLog, ...logs]
     setLogs(updatedLogs)
-    localStorage.setItem('tea-logs', JSON.stringify(updatedLogs))
-
-    // Update streak data
-    const updatedStreaks = calculateStreakFromLogs(updatedLogs)
-    setStreakData(updatedStreaks)
+    persistLogs(updatedLogs)
 
     // Reset to first page when new entry is added
     setCurrentPage(1)
@@ -447,6 +571,7 @@ export default function TEATracker() {
       setAttention('focused')
       setNote('')
       setImage(null)
+      if (imagePreview) URL.revokeObjectURL(imagePreview)
       setImagePreview(null)
 
       // Hide success message after animation
@@ -458,26 +583,30 @@ export default function TEATracker() {
   }
 
   const handleLogout = async () => {
+    const unsyncedCount = Object.keys(syncStatuses).length
+    if (unsyncedCount > 0 && !confirm(`${unsyncedCount} ${unsyncedCount === 1 ? 'entry has' : 'entries have'} not synced yet. They will sync the next time you log in on this device. Log out anyway?`)) {
+      return
+    }
+
     try {
+      if (userId) {
+        await clearSnapshot(userId).catch(error => console.error('Error clearing cached logs:', error))
+      }
       await supabase.auth.signOut()
       
       // Clear all user-specific localStorage data for security on shared devices
       localStorage.removeItem('tea-logs')
+      clearLocalRevisions()
+      clearMarkdownExportState()
+      clearCircadianState()
       localStorage.removeItem('last-tea-submit')
       localStorage.removeItem('tea-simplified-mode')
       
       // Reset local state
       setLogs([])
-      setStreakData({
-        dailiesCount: 0,
-        dayCount: 0,
-        weekCount: 0,
-        monthCount: 0,
-        yearCount: 0,
-        currentTier: 1,
-        lastLogDate: null,
-        streakStartDate: null
-      })
+      setPendingLocalLogs([])
+      setDeletedLogId(null)
+      setShowTrash(false)
       setIsSimplifiedMode(false)
       setCurrentPage(1)
       
@@ -487,6 +616,269 @@ export default function TEATracker() {
     }
   }
 
+  // Add entries to the account in small batches and return the ones that were new
+  const importIntoAccount = async (entries: LogEntry[]): Promise<LogEntry[]> => {
+    let importedLogs: LogEntry[] = []
+    for (let i = 0; i < entries.length; i += IMPORT_BATCH_SIZE) {
+      // Screenshots go to storage first so the imported entries can reference them
+      const batch = await Promise.all(
+        entries.slice(i, i + IMPORT_BATCH_SIZE).map(async log =>
+          userId && log.imageRef && isLocalImageRef(log.imageRef)
+            ? { ...log, imageRef: await uploadLocalImage(supabase, userId, log.id, log.imageRef) }
+            : log
+        )
+      )
+      const result = await importRemoteLogs(batch)
+      importedLogs = [...importedLogs, ...result.logs]
+    }
+    return importedLogs
+  }
+
+  // Local copies of screenshots that now live in the account
+  const deleteUploadedImages = (entries: LogEntry[]) => Promise.all(
+    entries
+      .filter(log => log.imageRef && isLocalImageRef(log.imageRef))
+      .map(log => deleteLocalImage(log.imageRef as string).catch(() => undefined))
+  )
+
+  const handleImportLocalLogs = async () => {
+    setIsImportingLocalLogs(true)
+
+    try {
+      const importedLogs = await importIntoAccount(pendingLocalLogs)
+
+      // Only clear the local copy once every batch made it; a retry skips what already landed
+      localStorage.removeItem('tea-logs')
+      await deleteUploadedImages(pendingLocalLogs)
+
+      const updatedLogs = [...importedLogs, ...logs]
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      setLogs(updatedLogs)
+      persistLogs(updatedLogs)
+      setPendingLocalLogs([])
+      setCurrentPage(1)
+    } catch (error) {
+      console.error('Error importing local logs:', error)
+      alert('Could not import all of your local logs. Please try again.')
+    } finally {
+      setIsImportingLocalLogs(false)
+    }
+  }
+
+  // Every entry, trashed ones included, so the file is a complete copy
+  const handleExportCsv = () => {
+    downloadBlob(new Blob([logsToCsv(logs)], { type: 'text/csv;charset=utf-8' }), getExportFilename('tea-logs', 'csv'))
+  }
+
+  // Trashed entries are left out of the calendar
+  const handleExportIcs = () => {
+    downloadBlob(new Blob([logsToIcs(logs)], { type: 'text/calendar;charset=utf-8' }), getExportFilename('tea-logs', 'ics'))
+  }
+
+  const handleCsvFile = async (file: File) => {
+    try {
+      const parsed = parseLogsCsv(await file.text())
+      // Stored screenshots belong to an account, so guests import entries without them
+      const parsedLogs = userId
+        ? parsed.logs
+        : parsed.logs.map(log => log.imageRef && isStorageImageRef(log.imageRef) ? { ...log, imageRef: null } : log)
+      const newLogs = findNewLogs(logs, parsedLogs)
+      setCsvImport({
+        fileName: file.name,
+        logs: newLogs,
+        duplicateCount: parsedLogs.length - newLogs.length,
+        errors: parsed.errors
+      })
+    } catch (error) {
+      console.error('Error reading CSV:', error)
+      alert('Could not read that file. Please choose a CSV exported from TEA Tracker or a spreadsheet.')
+    }
+  }
+
+  // Add entries read from a file to the account or this device, newest first
+  const addImportedLogs = async (entries: LogEntry[]) => {
+    const importedLogs = userId ? await importIntoAccount(entries) : entries
+
+    const updatedLogs = [...importedLogs, ...logs]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    setLogs(updatedLogs)
+    persistLogs(updatedLogs)
+    setCurrentPage(1)
+  }
+
+  const handleImportCsv = async () => {
+    if (!csvImport) return
+    setIsImportingCsv(true)
+
+    try {
+      await addImportedLogs(csvImport.logs)
+      setCsvImport(null)
+    } catch (error) {
+      console.error('Error importing CSV:', error)
+      alert('Could not import all of the entries. Please try again; entries that made it will be skipped.')
+    } finally {
+      setIsImportingCsv(false)
+    }
+  }
+
+  // Exports from Daylio, Bearable or a spreadsheet open the mapping preview
+  const handleSourceFile = async (file: File) => {
+    try {
+      const table = readSourceTable(await file.text())
+      if (table.rows.length === 0) {
+        alert('That file has no rows to import.')
+        return
+      }
+      setSourceImport({ fileName: file.name, table })
+    } catch (error) {
+      console.error('Error reading import file:', error)
+      alert('Could not read that file. Please choose a CSV export.')
+    }
+  }
+
+  const handleImportSource = async (entries: LogEntry[]) => {
+    setIsImportingSource(true)
+    try {
+      await addImportedLogs(entries)
+      setSourceImport(null)
+    } catch (error) {
+      console.error('Error importing entries:', error)
+      alert('Could not import all of the entries. Please try again; entries that made it will be skipped.')
+    } finally {
+      setIsImportingSource(false)
+    }
+  }
+
+  // Screenshot blobs for backups and exports, from wherever the entry's imageRef points
+  const loadImageBlobs = async (log: LogEntry): Promise<BackupImage | null> => {
+    if (!log.imageRef) return null
+    if (isLocalImageRef(log.imageRef)) {
+      const stored = await getStoredImage(log.imageRef)
+      return stored ? { blob: stored.blob, thumbnail: stored.thumbnail } : null
+    }
+    if (isStorageImageRef(log.imageRef)) {
+      return downloadStorageImage(supabase, log.imageRef)
+    }
+    if (isLegacyImageRef(log.imageRef)) {
+      return { blob: await (await fetch(log.imageRef)).blob() }
+    }
+    return null
+  }
+
+  const handleBackup = async () => {
+    setIsBackingUp(true)
+    try {
+      const archive = await createBackupArchive({
+        logs,
+        streak: streakData,
+        preferences: { simplifiedMode: isSimplifiedMode },
+        loadImage: loadImageBlobs
+      })
+      downloadBlob(archive, getExportFilename('tea-backup', 'zip'))
+    } catch (error) {
+      console.error('Error creating backup:', error)
+      alert('Could not create the backup. Please try again.')
+    } finally {
+      setIsBackingUp(false)
+    }
+  }
+
+  // Incremental exports only include days that are new or changed since the last one
+  const handleExportDailyNotes = async (incremental: boolean) => {
+    setIsExportingNotes(true)
+    try {
+      const result = await createDailyNotesArchive({ logs, incremental, loadImage: loadImageBlobs })
+      if (!result) {
+        alert('No new or changed days since your last daily notes export.')
+        return
+      }
+      downloadBlob(result.archive, getExportFilename(incremental ? 'tea-daily-notes-new' : 'tea-daily-notes', 'zip'))
+      saveMarkdownExportState(result.state)
+    } catch (error) {
+      console.error('Error exporting daily notes:', error)
+      alert('Could not export your daily notes. Please try again.')
+    } finally {
+      setIsExportingNotes(false)
+    }
+  }
+
+  const handleBackupFile = async (file: File) => {
+    try {
+      const { invalid, ...backup } = await readBackupArchive(file)
+      setBackupRestore({ fileName: file.name, backup, invalid })
+    } catch (error) {
+      console.error('Error reading backup:', error)
+      alert(error instanceof BackupFormatError ? error.message : 'Could not read that backup. Please try again.')
+    }
+  }
+
+  // Merge adds the backup's entries that aren't here yet; replace swaps everything for the backup
+  const handleRestoreBackup = async (mode: RestoreMode) => {
+    if (!backupRestore) return
+    const { backup } = backupRestore
+
+    if (mode === 'replace') {
+      if (userId && Object.keys(syncStatuses).length > 0) {
+        alert('Some entries have not synced yet. Wait for them to sync, then try again.')
+        return
+      }
+      const message = userId
+        ? `Replace all ${activeLogs.length} entries in your account with the ${backup.logs.length} in this backup? Entries that aren't in the backup are deleted forever.`
+        : `Replace all ${activeLogs.length} entries on this device with the ${backup.logs.length} in this backup? Entries that aren't in the backup are deleted forever.`
+      if (!confirm(message)) return
+    }
+
+    setRestoringMode(mode)
+    try {
+      const incoming = mode === 'merge' ? findNewLogs(logs, backup.logs) : backup.logs
+      const restoredLogs = await restoreBackupImages(incoming, backup.images)
+
+      let updatedLogs: LogEntry[]
+      if (userId) {
+        if (mode === 'replace') {
+          // Already-deleted entries count as done so a retried restore can pick up where it stopped
+          for (let i = 0; i < logs.length; i += IMPORT_BATCH_SIZE) {
+            await Promise.all(logs.slice(i, i + IMPORT_BATCH_SIZE).map(log =>
+              deleteRemoteLog(log.id).catch(error => {
+                if (!(error instanceof RemoteError && error.status === 404)) throw error
+              })
+            ))
+          }
+        }
+        const importedLogs = await importIntoAccount(restoredLogs)
+        await deleteUploadedImages(restoredLogs)
+        updatedLogs = mode === 'replace' ? importedLogs : [...importedLogs, ...logs]
+      } else if (mode === 'replace') {
+        const replacedRefs = [...logs.map(log => log.imageRef), ...getRevisionImageRefs(getLocalRevisions())]
+        new Set(replacedRefs).forEach(ref => {
+          if (ref && isLocalImageRef(ref)) {
+            deleteLocalImage(ref).catch(() => undefined)
+          }
+        })
+        clearLocalRevisions()
+        updatedLogs = restoredLogs
+      } else {
+        updatedLogs = [...restoredLogs, ...logs]
+      }
+
+      updatedLogs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      setLogs(updatedLogs)
+      persistLogs(updatedLogs)
+
+      setIsSimplifiedMode(backup.preferences.simplifiedMode)
+      localStorage.setItem('tea-simplified-mode', backup.preferences.simplifiedMode.toString())
+
+      setBackupRestore(null)
+      setShowTrash(false)
+      setCurrentPage(1)
+    } catch (error) {
+      console.error('Error restoring backup:', error)
+      alert('Could not restore all of the backup. Please try again; entries that made it will be skipped.')
+    } finally {
+      setRestoringMode(null)
+    }
+  }
+
   const handleLogin = () => {
     router.push('/auth/login')
   }
@@ -506,29 +898,22 @@ export default function TEATracker() {
     setEditTimestampValue(localDateTime)
   }
 
-  const saveTimestampEdit = (logId: string) => {
-    if (!editTimestampValue) return
-
+  // Shared by the History card's time editor and dragging on the day timeline
+  const updateLogTimestamp = async (logId: string, newTimestamp: Date) => {
     // Prevent future timestamps
-    const newTimestamp = new Date(editTimestampValue)
     const now = new Date()
     if (newTimestamp > now) {
       alert('Cannot set a future timestamp')
-      return
+      return false
     }
 
-    const updatedLogs = logs.map(log => 
-      log.id === logId 
-        ? { ...log, timestamp: newTimestamp.toISOString() }
-        : log
-    )
-    
-    setLogs(updatedLogs)
-    localStorage.setItem('tea-logs', JSON.stringify(updatedLogs))
-    
-    // Recalculate streaks after timestamp change
-    const updatedStreaks = calculateStreakFromLogs(updatedLogs)
-    setStreakData(updatedStreaks)
+    return applyLogUpdate(logId, { timestamp: newTimestamp.toISOString() })
+  }
+
+  const saveTimestampEdit = async (logId: string) => {
+    if (!editTimestampValue) return
+
+    if (!await updateLogTimestamp(logId, new Date(editTimestampValue))) return
     
     setEditingTimestamp(null)
     setEditTimestampValue('')
@@ -539,6 +924,99 @@ export default function TEATracker() {
     setEditTimestampValue('')
   }
 
+  // Save changes from a History card's edit mode
+  const saveLogEdit = async (log: LogEntry, edit: LogEntryEdit) => {
+    setIsSavingEdit(true)
+
+    const update: LogUpdate = {}
+    if (edit.energy !== log.energy) update.energy = edit.energy
+    if (edit.attention !== log.attention) update.attention = edit.attention
+    if (edit.note !== log.note) update.note = edit.note
+    if (edit.image.kind === 'remove' && log.imageRef) update.imageRef = null
+    if (edit.image.kind === 'replace') {
+      try {
+        update.imageRef = await saveLocalImage(edit.image.image.full, edit.image.image.thumbnail)
+      } catch (error) {
+        console.error('Error storing screenshot:', error)
+        alert(isQuotaExceededError(error)
+          ? 'Your browser storage is full, so the new screenshot could not be saved.'
+          : 'Could not store the screenshot. Please try again.')
+        setIsSavingEdit(false)
+        return
+      }
+    }
+
+    if (Object.keys(update).length > 0) {
+      // Replaced screenshots are kept so the change history can revert to them
+      if (!await applyLogUpdate(log.id, update)) {
+        setIsSavingEdit(false)
+        return
+      }
+    }
+
+    setEditingLogId(null)
+    setIsSavingEdit(false)
+  }
+
+  // Deleting moves an entry to the trash; it can be undone right away or restored later
+  const handleDeleteLog = async (logId: string) => {
+    if (!await applyLogUpdate(logId, { deletedAt: new Date().toISOString() })) return
+    setDeletedLogId(logId)
+
+    // Keep the current page in range when its last entry disappears
+    const remainingPages = Math.max(Math.ceil((historyLogs.length - 1) / ITEMS_PER_PAGE), 1)
+    if (currentPage > remainingPages) {
+      setCurrentPage(remainingPages)
+    }
+  }
+
+  const handleRestoreLog = async (logId: string) => {
+    await applyLogUpdate(logId, { deletedAt: null })
+  }
+
+  const handleUndoDelete = async () => {
+    if (!deletedLogId) return
+    await handleRestoreLog(deletedLogId)
+    setDeletedLogId(null)
+  }
+
+  // Purging is permanent: the entry and its screenshot are removed everywhere. Accounts keep the
+  // entry's change history; a guest's history lives next to the entry and goes with it.
+  const handlePurgeLog = async (logId: string) => {
+    const message = userId
+      ? 'Delete this entry forever? Its change history is kept. This cannot be undone.'
+      : 'Delete this entry and its change history forever? This cannot be undone.'
+    if (!confirm(message)) return
+
+    const purgedLog = logs.find(log => log.id === logId)
+    if (userId) {
+      try {
+        await enqueue({ type: 'delete', logId })
+      } catch (error) {
+        console.error('Error deleting log:', error)
+        alert('Could not delete this log. Please try again.')
+        return
+      }
+    }
+    // Remove every screenshot the entry has had, including ones kept for its history
+    const imageRefs = [
+      purgedLog?.imageRef,
+      ...(userId ? [] : getRevisionImageRefs(getLocalRevisions().filter(revision => revision.logId === logId)))
+    ]
+    new Set(imageRefs).forEach(ref => {
+      if (ref && isLocalImageRef(ref)) {
+        deleteLocalImage(ref).catch(() => undefined)
+      }
+    })
+    if (!userId) {
+      removeLocalRevisions(logId)
+    }
+
+    const updatedLogs = logs.filter(log => log.id !== logId)
+    setLogs(updatedLogs)
+    persistLogs(updatedLogs)
+  }
+
   const formatTimestamp = (timestamp: string) => {
     const date = new Date(timestamp)
     const today = new Date()
@@ -579,6 +1057,57 @@ export default function TEATracker() {
   return (
     <div className="min-h-screen bg-gray-50 p-4 pb-safe">
       <div className="max-w-2xl mx-auto space-y-6">
+        {/* Local logs waiting to be moved into the account */}
+        {isAuthenticated && pendingLocalLogs.length > 0 && (
+          <LogMigrationPrompt
+            count={pendingLocalLogs.length}
+            withImagesCount={pendingLocalLogs.filter(log => log.imageRef).length}
+            isImporting={isImportingLocalLogs}
+            onImport={handleImportLocalLogs}
+            onDismiss={() => setPendingLocalLogs([])}
+          />
+        )}
+
+        {/* CSV import waiting for confirmation */}
+        {csvImport && (
+          <CsvImportPreview
+            fileName={csvImport.fileName}
+            logs={csvImport.logs}
+            duplicateCount={csvImport.duplicateCount}
+            errors={csvImport.errors}
+            isImporting={isImportingCsv}
+            onImport={handleImportCsv}
+            onCancel={() => setCsvImport(null)}
+          />
+        )}
+
+        {/* Another app's export waiting for its scale to be mapped */}
+        {sourceImport && (
+          <SourceImportPreview
+            fileName={sourceImport.fileName}
+            table={sourceImport.table}
+            existingLogs={logs}
+            isImporting={isImportingSource}
+            onImport={handleImportSource}
+            onCancel={() => setSourceImport(null)}
+          />
+        )}
+
+        {/* Backup waiting for merge or replace */}
+        {backupRestore && (
+          <BackupRestorePrompt
+            fileName={backupRestore.fileName}
+            createdAt={backupRestore.backup.createdAt}
+            count={backupRestore.backup.logs.length}
+            newCount={findNewLogs(logs, backupRestore.backup.logs).length}
+            withImagesCount={backupRestore.backup.images.size}
+            invalidCount={backupRestore.invalid}
+            restoringMode={restoringMode}
+            onRestore={handleRestoreBackup}
+            onCancel={() => setBackupRestore(null)}
+          />
+        )}
+
         {/* Main Tracker Card */}
         <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6 space-y-4 sm:space-y-6">
           {/* Header */}
@@ -651,6 +1180,27 @@ export default function TEATracker() {
                   </button>
                   {showMenu && (
                     <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-10">
+                      <button
+                        onClick={() => router.push('/insights')}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                      >
+                        <BarChart3 className="w-4 h-4" />
+                        Insights
+                      </button>
+                      <button
+                        onClick={() => router.push('/settings/tokens')}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                      >
+                        <KeyRound className="w-4 h-4" />
+                        API Tokens
+                      </button>
+                      <button
+                        onClick={() => router.push('/settings/webhooks')}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
+                      >
+                        <Webhook className="w-4 h-4" />
+                        Webhooks
+                      </button>
                       <button
                         onClick={handleLogout}
                         className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2"
@@ -695,7 +1245,7 @@ export default function TEATracker() {
                     Sign up to save your logs
                   </p>
                   <p className="text-[10px] text-gray-500 leading-tight">
-                    unlock analytics (soon™)
+                    unlock insights
                   </p>
                 </div>
               </div>
@@ -788,7 +1338,7 @@ export default function TEATracker() {
                 <div className="relative">
                   <input
                     type="file"
-                    accept="image/jpeg,image/jpg,image/png,image/gif,image/webp"
+                    accept={ACCEPTED_IMAGE_TYPES.join(',')}
                     onChange={handleImageChange}
                     className="hidden"
                     id="image-upload"
@@ -797,7 +1347,11 @@ export default function TEATracker() {
                     htmlFor="image-upload"
                     className="flex items-center justify-center gap-2 w-full px-3 py-2 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-gray-400 transition-colors group"
                   >
-                    {imagePreview ? (
+                    {isProcessingImage ? (
+                      <div className="flex items-center justify-center h-6 text-xs text-gray-400">
+                        Processing...
+                      </div>
+                    ) : imagePreview ? (
                       <div className="relative w-full">
                         <div className="relative w-full h-24 sm:h-32">
                           {/* eslint-disable-next-line @next/next/no-img-element */}
@@ -822,10 +1376,10 @@ export default function TEATracker() {
             </div>
           )}
 
-          {/* Submit Button - Always enabled */}
+          {/* Submit Button - Enabled unless a screenshot is still processing */}
           <button
             onClick={handleSubmit}
-            disabled={isSubmitting}
+            disabled={isSubmitting || isProcessingImage}
             className={`w-full py-2.5 sm:py-3 px-4 rounded-lg font-medium transition-all flex items-center justify-center gap-2 text-sm sm:text-base ${
               isSubmitting
                 ? 'bg-indigo-400 text-white'
@@ -842,6 +1396,15 @@ export default function TEATracker() {
             )}
           </button>
 
+          {/* Rate limit notice - From the quick local check or from the server while syncing */}
+          {(submitLimitUntil || syncRateLimit) && (
+            <p className="text-xs text-center text-amber-600" role="status">
+              {submitLimitUntil
+                ? 'Please wait a few seconds before logging another entry.'
+                : `${syncRateLimit?.message} Your entry is saved on this device and will sync automatically.`}
+            </p>
+          )}
+
           {/* Celebration Animation */}
           {celebration && (
             <>
@@ -978,12 +1541,100 @@ export default function TEATracker() {
         {/* Recent Logs - Clean ADHD-Friendly Layout */}
         {logs.length > 0 && (
           <div className="space-y-4">
-            <h2 className="text-base sm:text-lg font-semibold text-gray-800">History</h2>
+            <div className="flex items-center justify-between">
+              <h2 className="text-base sm:text-lg font-semibold text-gray-800">
+                {showTrash ? 'Trash' : 'History'}
+                {!showTrash && historyView === 'list' && historyDay && (
+                  <span className="font-normal text-gray-500">
+                    {' '}· {parseLocalDateKey(historyDay).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                  </span>
+                )}
+              </h2>
+              <div className="flex items-center gap-1">
+                {!showTrash && historyView === 'list' && historyDay && (
+                  <button
+                    onClick={showAllHistory}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
+                  >
+                    <X className="w-3 h-3" />
+                    Show all days
+                  </button>
+                )}
+                {!showTrash && (
+                  <div className="flex rounded-lg bg-gray-100 p-0.5">
+                    {HISTORY_VIEWS.map(([value, Icon]) => (
+                      <button
+                        key={value}
+                        onClick={() => setHistoryView(value)}
+                        className={`p-1 rounded-md transition-colors ${
+                          historyView === value ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                        }`}
+                        title={`Show as a ${value}`}
+                        aria-label={`Show as a ${value}`}
+                        aria-pressed={historyView === value}
+                      >
+                        <Icon className="w-3 h-3" />
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {(showTrash || trashedLogs.length > 0) && (
+                  <button
+                    onClick={() => setShowTrash(!showTrash)}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
+                  >
+                    {showTrash ? (
+                      <>
+                        <ChevronLeft className="w-3 h-3" />
+                        Back to History
+                      </>
+                    ) : (
+                      <>
+                        <Trash2 className="w-3 h-3" />
+                        Trash ({trashedLogs.length})
+                      </>
+                    )}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {showTrash ? (
+              <TrashList logs={trashedLogs} onRestore={handleRestoreLog} onPurge={handlePurgeLog} />
+            ) : historyView === 'calendar' ? (
+              <HistoryCalendar
+                logs={activeLogs}
+                streakData={streakData}
+                initialDay={historyDay}
+                onSelectDay={(day) => {
+                  setHistoryDay(day)
+                  setCurrentPage(1)
+                  setHistoryView('list')
+                }}
+              />
+            ) : historyView === 'timeline' ? (
+              <DayTimeline
+                day={timelineDay}
+                logs={activeLogs}
+                hasLoadedLogs={hasLoadedLogs}
+                onChangeDay={(day) => {
+                  setHistoryDay(day)
+                  setCurrentPage(1)
+                }}
+                onMoveLog={updateLogTimestamp}
+                onExpandImage={setExpandedImage}
+              />
+            ) : (
+            <>
             <div className="space-y-3">
+              {historyLogs.length === 0 && (
+                <p className="text-sm text-gray-500 py-4 text-center">No entries on this day.</p>
+              )}
               {currentLogs.map((log) => {
                 const logEnergy = energyLevels.find(l => l.value === log.energy)
                 const logAttention = attentionStates.find(a => a.value === log.attention)
                 const isEditing = editingTimestamp === log.id
+                const syncStatus = syncStatuses[log.id] ?? 'synced'
                 
                 return (
                   <div key={log.id} className="bg-white rounded-lg shadow-sm border border-gray-100 p-4">
@@ -1014,15 +1665,78 @@ export default function TEATracker() {
                           </button>
                         </div>
                       ) : (
-                        <button
-                          onClick={() => startEditingTimestamp(log.id, log.timestamp)}
-                          className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors"
-                        >
-                          <Edit3 className="w-3 h-3" />
-                        </button>
+                        <>
+                          <button
+                            onClick={() => startEditingTimestamp(log.id, log.timestamp)}
+                            className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                          >
+                            <Edit3 className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={() => setEditingLogId(log.id)}
+                            className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                            title="Edit entry"
+                          >
+                            <Pencil className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={() => setRevisionsLogId(revisionsLogId === log.id ? null : log.id)}
+                            className={`p-1 rounded transition-colors ${
+                              revisionsLogId === log.id
+                                ? 'text-indigo-600 bg-indigo-50'
+                                : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+                            }`}
+                            title="Change history"
+                          >
+                            <History className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteLog(log.id)}
+                            className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                            title="Move to trash"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </>
+                      )}
+
+                      {/* Sync state - Only for authenticated users */}
+                      {isAuthenticated && (
+                        <div className="ml-auto flex items-center">
+                          {syncStatus === 'pending' && (
+                            <span className="flex items-center gap-1 text-[10px] text-gray-400" title="Waiting to sync">
+                              <CloudUpload className="w-3 h-3" />
+                              Pending
+                            </span>
+                          )}
+                          {syncStatus === 'failed' && (
+                            <button
+                              onClick={() => retrySync(log.id)}
+                              className="flex items-center gap-1 px-1 text-[10px] text-red-500 hover:bg-red-50 rounded transition-colors"
+                              title="Sync failed - tap to retry"
+                            >
+                              <CloudAlert className="w-3 h-3" />
+                              Retry
+                            </button>
+                          )}
+                          {syncStatus === 'synced' && (
+                            <span className="text-gray-300" title="Synced">
+                              <Cloud className="w-3 h-3" />
+                            </span>
+                          )}
+                        </div>
                       )}
                     </div>
 
+                    {editingLogId === log.id ? (
+                      <LogEntryEditor
+                        log={log}
+                        isSaving={isSavingEdit}
+                        onSave={(edit) => saveLogEdit(log, edit)}
+                        onCancel={() => setEditingLogId(null)}
+                      />
+                    ) : (
+                    <>
                     {/* Content - Vertically Stacked for Better Alignment */}
                     <div className="flex gap-4">
                       {/* Main Content - Fixed Height for Consistency */}
@@ -1044,14 +1758,13 @@ export default function TEATracker() {
                       
                       {/* Image - Fixed Size for Consistency */}
                       <div className="flex-shrink-0 w-16 h-16">
-                        {log.imagePreview ? (
+                        {log.imageRef ? (
                           <div 
                             className="w-full h-full relative rounded cursor-pointer hover:opacity-90 transition-opacity border border-gray-200 overflow-hidden"
-                            onClick={() => setExpandedImage(log.imagePreview)}
+                            onClick={() => setExpandedImage(log.imageRef)}
                           >
-                            {/* eslint-disable-next-line @next/next/no-img-element */}
-                            <img
-                              src={log.imagePreview}
+                            <LogImage
+                              imageRef={log.imageRef}
                               alt="Log screenshot"
                               className="w-full h-full object-cover"
                             />
@@ -1068,6 +1781,20 @@ export default function TEATracker() {
                         <p className="text-sm text-gray-600 italic">{log.note}</p>
                       </div>
                     )}
+                    </>
+                    )}
+
+                    {/* Change history - Toggled from the card header */}
+                    {revisionsLogId === log.id && (
+                      <div className="mt-3 pt-2 border-t border-gray-100">
+                        <RevisionList
+                          log={log}
+                          loadRevisions={loadRevisions}
+                          onRevert={(revisions, revisionId) => handleRevertLog(log, revisions, revisionId)}
+                          hasUnsyncedChanges={syncStatus === 'pending' || syncStatus === 'failed'}
+                        />
+                      </div>
+                    )}
                   </div>
                 )
               })}
@@ -1077,7 +1804,7 @@ export default function TEATracker() {
             {showPagination && (
               <div className="flex items-center justify-between py-4">
                 <div className="text-xs text-gray-500">
-                  Showing {startIndex + 1}-{Math.min(endIndex, logs.length)} of {logs.length} tracks
+                  Showing {startIndex + 1}-{Math.min(endIndex, historyLogs.length)} of {historyLogs.length} tracks
                 </div>
                 <div className="flex items-center gap-2">
                   <button
@@ -1110,10 +1837,38 @@ export default function TEATracker() {
                 </div>
               </div>
             )}
+            </>
+            )}
 
           </div>
         )}
 
+        {/* Export and import */}
+        {!isLoading && (
+          <LogDataActions
+            canExport={logs.length > 0}
+            isBackingUp={isBackingUp}
+            isExportingNotes={isExportingNotes}
+            onExportCsv={handleExportCsv}
+            onExportIcs={handleExportIcs}
+            onImportCsv={handleCsvFile}
+            onImportFromApp={handleSourceFile}
+            onExportDailyNotes={handleExportDailyNotes}
+            onBackup={handleBackup}
+            onRestore={handleBackupFile}
+          />
+        )}
+
+        {/* Undo for the most recent deletion */}
+        {deletedLogId && (
+          <UndoSnackbar
+            key={deletedLogId}
+            message="Entry moved to trash"
+            onUndo={handleUndoDelete}
+            onDismiss={() => setDeletedLogId(null)}
+          />
+        )}
+
         {/* Expanded Image Modal */}
         {expandedImage && (
           <div 
@@ -1121,11 +1876,12 @@ export default function TEATracker() {
             onClick={() => setExpandedImage(null)}
           >
             <div className="relative max-w-4xl max-h-full">
-              {/* eslint-disable-next-line @next/next/no-img-element */}
-              <img
-                src={expandedImage}
+              <LogImage
+                imageRef={expandedImage}
                 alt="Expanded screenshot"
                 className="max-w-full max-h-full object-contain"
+                variant="full"
+                lazy={false}
               />
               <button
                 onClick={() => setExpandedImage(null)}
@@ -0,0 +1,176 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, Copy, Check } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { fetchRemoteTokens, createRemoteToken, revokeRemoteToken } from '@/lib/tokens/remote'
+import { MAX_TOKEN_NAME_LENGTH, type ApiToken, type ApiTokenScope } from '@/lib/tokens/types'
+import { ApiTokenList } from '@/components/api-token-list'
+
+// Personal access tokens for Shortcuts, Stream Deck buttons and scripts (see docs/api.md)
+export default function ApiTokensPage() {
+  const router = useRouter()
+  const [tokens, setTokens] = useState<ApiToken[] | null>(null)
+  const [name, setName] = useState('')
+  const [scope, setScope] = useState<ApiTokenScope>('write')
+  const [isCreating, setIsCreating] = useState(false)
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [newTokenScope, setNewTokenScope] = useState<ApiTokenScope | null>(null)
+  const [isCopied, setIsCopied] = useState(false)
+
+  useEffect(() => {
+    const loadTokens = async () => {
+      const { data: { session } } = await createClient().auth.getSession()
+      if (!session) {
+        router.push('/auth/login')
+        return
+      }
+
+      try {
+        setTokens(await fetchRemoteTokens())
+      } catch (error) {
+        console.error('Error loading API tokens:', error)
+        alert('Could not load your API tokens. Please try again.')
+      }
+    }
+
+    loadTokens()
+  }, [router])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setIsCreating(true)
+    try {
+      const { token, apiToken } = await createRemoteToken(name.trim(), scope)
+      setTokens(current => [apiToken, ...(current ?? [])])
+      setNewToken(token)
+      setNewTokenScope(apiToken.scope)
+      setIsCopied(false)
+      setName('')
+    } catch (error) {
+      console.error('Error creating API token:', error)
+      alert(error instanceof Error ? error.message : 'Could not create the token. Please try again.')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!newToken) return
+    try {
+      await navigator.clipboard.writeText(newToken)
+      setIsCopied(true)
+    } catch (error) {
+      console.error('Error copying API token:', error)
+    }
+  }
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Anything using it will stop working right away.`)) return
+
+    try {
+      const revoked = await revokeRemoteToken(token.id)
+      setTokens(current => (current ?? []).map(t => t.id === revoked.id ? revoked : t))
+    } catch (error) {
+      console.error('Error revoking API token:', error)
+      alert('Could not revoke the token. Please try again.')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 pb-safe">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6 space-y-4 sm:space-y-6">
+          <div className="flex items-center gap-3">
+            <Link href="/" className="p-2 hover:bg-gray-100 rounded-lg transition-colors" aria-label="Back to tracker">
+              <ArrowLeft className="w-5 h-5 text-gray-600" />
+            </Link>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-800">API Tokens</h1>
+          </div>
+
+          <p className="text-sm text-gray-500">
+            Tokens let Shortcuts, a Stream Deck or your own scripts log entries without signing in.
+            Send one to <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">/api/logs</code> as
+            {' '}<code className="text-xs bg-gray-100 px-1 py-0.5 rounded">Authorization: Bearer &lt;token&gt;</code>.
+          </p>
+
+          {/* Create */}
+          <form onSubmit={handleCreate} className="space-y-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={MAX_TOKEN_NAME_LENGTH}
+              placeholder="Token name, e.g. iPhone Shortcut"
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+            <div className="flex gap-2">
+              {(['write', 'read'] as const).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setScope(option)}
+                  className={`flex-1 py-2 px-3 rounded-lg border-2 text-sm transition-all ${
+                    scope === option
+                      ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                      : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                  }`}
+                >
+                  {option === 'write' ? 'Read & write' : 'Read only'}
+                </button>
+              ))}
+            </div>
+            <button
+              type="submit"
+              disabled={isCreating || !name.trim()}
+              className="w-full py-2.5 px-4 rounded-lg font-medium text-sm bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-indigo-300 transition-colors"
+            >
+              {isCreating ? 'Creating...' : 'Create token'}
+            </button>
+          </form>
+
+          {/* Shown once: only a hash is kept on the server */}
+          {newToken && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg space-y-2">
+              <p className="text-xs text-green-800">
+                Copy this token now. You won&apos;t be able to see it again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 text-xs font-mono break-all text-gray-800">{newToken}</code>
+                <button
+                  onClick={handleCopy}
+                  className="p-2 text-green-700 hover:bg-green-100 rounded-lg transition-colors"
+                  title="Copy token"
+                >
+                  {isCopied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </div>
+              {/* Feeds only accept read-only tokens, since the token is part of the URL */}
+              {newTokenScope === 'read' && (
+                <div className="space-y-1">
+                  <p className="text-xs text-green-800">Calendar subscription URL:</p>
+                  <code className="block text-xs font-mono break-all text-gray-800">
+                    {`${window.location.origin}/api/logs/calendar.ics?token=${newToken}`}
+                  </code>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-800">Your tokens</h2>
+          {tokens ? (
+            <ApiTokenList tokens={tokens} onRevoke={handleRevoke} />
+          ) : (
+            <p className="text-sm text-gray-500 py-4 text-center">Loading...</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, RefreshCw } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import {
+  fetchRemoteWebhooks,
+  createRemoteWebhook,
+  deleteRemoteWebhook,
+  sendRemoteTestEvent,
+  fetchRemoteDeliveries
+} from '@/lib/webhooks/remote'
+import { MAX_WEBHOOK_URL_LENGTH, type Webhook, type WebhookDelivery } from '@/lib/webhooks/types'
+import { WebhookList } from '@/components/webhook-list'
+import { WebhookDeliveryList } from '@/components/webhook-delivery-list'
+
+// Webhooks POST a signed JSON payload to the user's own services when entries change (see docs/api.md)
+export default function WebhooksPage() {
+  const router = useRouter()
+  const [webhooks, setWebhooks] = useState<Webhook[] | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null)
+  const [url, setUrl] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+  const [testingId, setTestingId] = useState<string | null>(null)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  const loadDeliveries = useCallback(async () => {
+    setIsRefreshing(true)
+    try {
+      setDeliveries(await fetchRemoteDeliveries())
+    } catch (error) {
+      console.error('Error loading webhook deliveries:', error)
+    } finally {
+      setIsRefreshing(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const loadWebhooks = async () => {
+      const { data: { session } } = await createClient().auth.getSession()
+      if (!session) {
+        router.push('/auth/login')
+        return
+      }
+
+      try {
+        setWebhooks(await fetchRemoteWebhooks())
+      } catch (error) {
+        console.error('Error loading webhooks:', error)
+        alert('Could not load your webhooks. Please try again.')
+        return
+      }
+      loadDeliveries()
+    }
+
+    loadWebhooks()
+  }, [router, loadDeliveries])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!url.trim()) return
+
+    setIsCreating(true)
+    try {
+      const webhook = await createRemoteWebhook(url.trim())
+      setWebhooks(current => [webhook, ...(current ?? [])])
+      setUrl('')
+    } catch (error) {
+      console.error('Error creating webhook:', error)
+      alert(error instanceof Error ? error.message : 'Could not add the webhook. Please try again.')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleTest = async (webhook: Webhook) => {
+    setTestingId(webhook.id)
+    try {
+      const delivery = await sendRemoteTestEvent(webhook.id)
+      setDeliveries(current => [delivery, ...(current ?? [])])
+    } catch (error) {
+      console.error('Error sending test event:', error)
+      alert('Could not send the test event. Please try again.')
+    } finally {
+      setTestingId(null)
+    }
+  }
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook for ${webhook.url}? Its delivery log is deleted too.`)) return
+
+    try {
+      await deleteRemoteWebhook(webhook.id)
+      setWebhooks(current => (current ?? []).filter(w => w.id !== webhook.id))
+      setDeliveries(current => (current ?? []).filter(d => d.webhookId !== webhook.id))
+    } catch (error) {
+      console.error('Error deleting webhook:', error)
+      alert('Could not delete the webhook. Please try again.')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 pb-safe">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6 space-y-4 sm:space-y-6">
+          <div className="flex items-center gap-3">
+            <Link href="/" className="p-2 hover:bg-gray-100 rounded-lg transition-colors" aria-label="Back to tracker">
+              <ArrowLeft className="w-5 h-5 text-gray-600" />
+            </Link>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-800">Webhooks</h1>
+          </div>
+
+          <p className="text-sm text-gray-500">
+            Each webhook receives a JSON <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">POST</code> whenever
+            an entry is logged, edited or deleted, signed with its secret in the
+            {' '}<code className="text-xs bg-gray-100 px-1 py-0.5 rounded">X-Tea-Signature</code> header.
+            Failed deliveries are retried for about 15 hours.
+          </p>
+
+          {/* Create */}
+          <form onSubmit={handleCreate} className="space-y-3">
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              maxLength={MAX_WEBHOOK_URL_LENGTH}
+              placeholder="https://example.com/tea-webhook"
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={isCreating || !url.trim()}
+              className="w-full py-2.5 px-4 rounded-lg font-medium text-sm bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-indigo-300 transition-colors"
+            >
+              {isCreating ? 'Adding...' : 'Add webhook'}
+            </button>
+          </form>
+        </div>
+
+        <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-800">Your webhooks</h2>
+          {webhooks ? (
+            <WebhookList webhooks={webhooks} testingId={testingId} onTest={handleTest} onDelete={handleDelete} />
+          ) : (
+            <p className="text-sm text-gray-500 py-4 text-center">Loading...</p>
+          )}
+        </div>
+
+        <div className="w-full bg-white rounded-2xl shadow-lg p-4 sm:p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-800">Recent deliveries</h2>
+            <button
+              onClick={loadDeliveries}
+              disabled={isRefreshing}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Refresh deliveries"
+            >
+              <RefreshCw className={`w-4 h-4 text-gray-600 ${isRefreshing ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+          {deliveries && webhooks ? (
+            <WebhookDeliveryList deliveries={deliveries} webhooks={webhooks} />
+          ) : (
+            <p className="text-sm text-gray-500 py-4 text-center">Loading...</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
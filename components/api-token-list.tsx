@@ -0,0 +1,61 @@
+'use client'
+
+import { KeyRound } from 'lucide-react'
+import type { ApiToken } from '@/lib/tokens/types'
+
+interface ApiTokenListProps {
+  tokens: ApiToken[]
+  onRevoke: (token: ApiToken) => void
+}
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+
+export function ApiTokenList({ tokens, onRevoke }: ApiTokenListProps) {
+  if (tokens.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">No tokens yet</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {tokens.map(token => (
+        <div
+          key={token.id}
+          className={`bg-white rounded-lg border border-gray-100 p-3 flex items-center gap-3 ${token.revokedAt ? 'opacity-60' : ''}`}
+        >
+          <KeyRound className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700 truncate">{token.name}</span>
+              <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${
+                token.scope === 'write' ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600'
+              }`}>
+                {token.scope === 'write' ? 'Read & write' : 'Read only'}
+              </span>
+            </div>
+            <div className="text-xs text-gray-500 font-mono">{token.prefix}…</div>
+            <div className="text-xs text-gray-500">
+              Created {formatDate(token.createdAt)}
+              {' '}• {token.lastUsedAt ? `Last used ${formatDate(token.lastUsedAt)}` : 'Never used'}
+              {token.revokedAt && <> • Revoked {formatDate(token.revokedAt)}</>}
+            </div>
+          </div>
+          {!token.revokedAt && (
+            <button
+              onClick={() => onRevoke(token)}
+              className="px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              Revoke
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import { ArchiveRestore } from 'lucide-react'
+
+export type RestoreMode = 'merge' | 'replace'
+
+interface BackupRestorePromptProps {
+  fileName: string
+  createdAt: string
+  count: number
+  newCount: number
+  withImagesCount: number
+  invalidCount: number
+  restoringMode: RestoreMode | null
+  onRestore: (mode: RestoreMode) => void
+  onCancel: () => void
+}
+
+// Lets the user choose between adding a backup's new entries and replacing everything with it
+export function BackupRestorePrompt({
+  fileName,
+  createdAt,
+  count,
+  newCount,
+  withImagesCount,
+  invalidCount,
+  restoringMode,
+  onRestore,
+  onCancel
+}: BackupRestorePromptProps) {
+  const isRestoring = restoringMode !== null
+
+  return (
+    <div className="w-full bg-indigo-50 border border-indigo-100 rounded-2xl p-4 space-y-3">
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-gray-800 truncate">Restore from {fileName}</p>
+        <p className="text-xs text-gray-500">
+          {createdAt && `Backed up ${new Date(createdAt).toLocaleString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit'
+          })} • `}
+          {count} {count === 1 ? 'entry' : 'entries'}
+          {withImagesCount > 0 && ` (${withImagesCount} with screenshots)`}
+          {` • ${newCount} not in your history`}
+        </p>
+        {invalidCount > 0 && (
+          <p className="text-xs text-red-600">
+            {invalidCount} {invalidCount === 1 ? 'entry is' : 'entries are'} damaged and will be skipped.
+          </p>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center justify-end gap-3">
+        <button
+          onClick={onCancel}
+          disabled={isRestoring}
+          className="text-xs sm:text-sm text-gray-500 hover:text-gray-700 transition-colors font-medium px-2 py-2"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onRestore('replace')}
+          disabled={isRestoring}
+          className="px-4 py-2 rounded-lg font-medium text-xs sm:text-sm text-red-600 hover:bg-red-50 transition-colors"
+        >
+          {restoringMode === 'replace' ? 'Replacing...' : 'Replace all'}
+        </button>
+        <button
+          onClick={() => onRestore('merge')}
+          disabled={isRestoring || newCount === 0}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-xs sm:text-sm transition-colors ${
+            isRestoring || newCount === 0
+              ? 'bg-indigo-400 text-white'
+              : 'bg-indigo-600 text-white hover:bg-indigo-700'
+          }`}
+        >
+          <ArchiveRestore className="w-4 h-4" />
+          {restoringMode === 'merge' ? 'Restoring...' : `Add ${newCount}`}
+        </button>
+      </div>
+    </div>
+  )
+}
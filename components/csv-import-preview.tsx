@@ -0,0 +1,95 @@
+'use client'
+
+import { Upload } from 'lucide-react'
+import { energyLevels, attentionStates } from '@/lib/logs/constants'
+import type { CsvRowError } from '@/lib/logs/csv'
+import type { LogEntry } from '@/lib/logs/types'
+
+interface CsvImportPreviewProps {
+  fileName: string
+  logs: LogEntry[]
+  duplicateCount: number
+  errors: CsvRowError[]
+  isImporting: boolean
+  onImport: () => void
+  onCancel: () => void
+}
+
+const PREVIEW_ROWS = 5
+const ERROR_ROWS = 10
+
+// What a CSV import would add, skip and reject, before anything is saved
+export function CsvImportPreview({ fileName, logs, duplicateCount, errors, isImporting, onImport, onCancel }: CsvImportPreviewProps) {
+  return (
+    <div className="w-full bg-indigo-50 border border-indigo-100 rounded-2xl p-4 space-y-3">
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-gray-800 truncate">Import from {fileName}</p>
+        <p className="text-xs text-gray-500">
+          {logs.length} new {logs.length === 1 ? 'entry' : 'entries'}
+          {duplicateCount > 0 && ` • ${duplicateCount} already in your history`}
+          {errors.length > 0 && ` • ${errors.length} ${errors.length === 1 ? 'row' : 'rows'} with problems`}
+        </p>
+      </div>
+
+      {logs.length > 0 && (
+        <div className="space-y-1">
+          {logs.slice(0, PREVIEW_ROWS).map(log => (
+            <div key={log.id} className="flex items-center gap-2 text-xs text-gray-700 bg-white rounded px-2 py-1">
+              <span className="text-gray-500">
+                {new Date(log.timestamp).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit'
+                })}
+              </span>
+              <span>{energyLevels.find(l => l.value === log.energy)?.icon}</span>
+              <span>{attentionStates.find(a => a.value === log.attention)?.emoji}</span>
+              {log.note && <span className="truncate italic text-gray-500">{log.note}</span>}
+            </div>
+          ))}
+          {logs.length > PREVIEW_ROWS && (
+            <p className="text-xs text-gray-500 px-2">and {logs.length - PREVIEW_ROWS} more</p>
+          )}
+        </div>
+      )}
+
+      {/* Rows that failed validation are left out of the import */}
+      {errors.length > 0 && (
+        <div className="space-y-1">
+          {errors.slice(0, ERROR_ROWS).map(error => (
+            <p key={error.row} className="text-xs text-red-600">
+              Row {error.row}: {error.issues.map(issue => issue.message).join('; ')}
+            </p>
+          ))}
+          {errors.length > ERROR_ROWS && (
+            <p className="text-xs text-red-600">and {errors.length - ERROR_ROWS} more rows</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        <button
+          onClick={onCancel}
+          disabled={isImporting}
+          className="text-xs sm:text-sm text-gray-500 hover:text-gray-700 transition-colors font-medium px-2 py-2"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onImport}
+          disabled={isImporting || logs.length === 0}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-xs sm:text-sm transition-colors ${
+            isImporting || logs.length === 0
+              ? 'bg-indigo-400 text-white'
+              : 'bg-indigo-600 text-white hover:bg-indigo-700'
+          }`}
+        >
+          <Upload className="w-4 h-4" />
+          {isImporting ? 'Importing...' : `Import ${logs.length}`}
+        </button>
+      </div>
+    </div>
+  )
+}
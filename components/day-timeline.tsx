@@ -0,0 +1,306 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, GripVertical } from 'lucide-react'
+import { energyLevels, attentionStates } from '@/lib/logs/constants'
+import { addDays, getLocalDateKey, parseLocalDateKey } from '@/lib/logs/days'
+import type { LogEntry } from '@/lib/logs/types'
+import { ATTENTION_COLORS } from '@/lib/insights/colors'
+import { LogImage } from './log-image'
+
+interface DayTimelineProps {
+  day: string
+  // Every active entry, so the timeline can jump between logged days
+  logs: LogEntry[]
+  // False until the page has loaded the entries, so the first scroll waits for them
+  hasLoadedLogs: boolean
+  onChangeDay: (day: string) => void
+  // Resolves false when the move was refused, e.g. a time in the future
+  onMoveLog: (logId: string, timestamp: Date) => Promise<boolean>
+  onExpandImage: (imageRef: string) => void
+}
+
+const HOUR_HEIGHT = 48
+const MINUTES_PER_DAY = 24 * 60
+const SNAP_MINUTES = 5
+const CARD_HEIGHT = 64
+const CARD_GAP = 4
+// Energy line column, 1 on the left to 5 on the right
+const ENERGY_WIDTH = 72
+
+const toY = (minute: number) => (minute / 60) * HOUR_HEIGHT
+const toEnergyX = (energy: number) => 6 + ((energy - 1) / 4) * (ENERGY_WIDTH - 12)
+
+const getMinuteOfDay = (timestamp: string) => {
+  const date = new Date(timestamp)
+  return date.getHours() * 60 + date.getMinutes()
+}
+
+const formatMinute = (minute: number) =>
+  new Date(2000, 0, 1, 0, minute).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+
+interface DragState {
+  logId: string
+  startY: number
+  startMinute: number
+  minute: number
+}
+
+// One day on a 24-hour axis: energy as a line, attention as bands between entries, and each
+// entry's note and screenshot beside its time. Entries can be dragged to a new time of day.
+export function DayTimeline({ day, logs, hasLoadedLogs, onChangeDay, onMoveLog, onExpandImage }: DayTimelineProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const scrolledDayRef = useRef<string | null>(null)
+  const [drag, setDrag] = useState<DragState | null>(null)
+  // Where a dropped entry sits until the saved time comes back in logs
+  const [pendingMove, setPendingMove] = useState<{ logId: string; minute: number } | null>(null)
+
+  const today = getLocalDateKey(new Date())
+  const loggedDays = useMemo(
+    () => Array.from(new Set(logs.map(log => getLocalDateKey(log.timestamp)))).sort(),
+    [logs]
+  )
+  const previousLoggedDay = [...loggedDays].reverse().find(loggedDay => loggedDay < day)
+  const nextLoggedDay = loggedDays.find(loggedDay => loggedDay > day)
+
+  const dayLogs = useMemo(() => logs
+    .filter(log => getLocalDateKey(log.timestamp) === day)
+    .map(log => {
+      const minute = drag?.logId === log.id
+        ? drag.minute
+        : pendingMove?.logId === log.id ? pendingMove.minute : getMinuteOfDay(log.timestamp)
+      return { log, minute }
+    })
+    .sort((a, b) => a.minute - b.minute),
+  [logs, day, drag, pendingMove])
+
+  // Cards sit at their time but are pushed down when entries are too close together to fit
+  const cardTops: number[] = []
+  dayLogs.forEach(({ minute }, index) => {
+    const previous = cardTops[index - 1]
+    cardTops.push(Math.max(toY(minute) - CARD_HEIGHT / 2, previous === undefined ? 0 : previous + CARD_HEIGHT + CARD_GAP, 0))
+  })
+  const height = Math.max(toY(MINUTES_PER_DAY), (cardTops[cardTops.length - 1] ?? 0) + CARD_HEIGHT)
+
+  // Open each day around its first entry, or the morning when there are none
+  const firstMinute = dayLogs[0]?.minute
+  useEffect(() => {
+    // Only when the day changes, not while entries move within it
+    if (!hasLoadedLogs || scrolledDayRef.current === day) return
+    scrolledDayRef.current = day
+    scrollRef.current?.scrollTo({ top: Math.max(toY(firstMinute ?? 8 * 60) - HOUR_HEIGHT, 0) })
+  }, [day, firstMinute, hasLoadedLogs])
+
+  useEffect(() => setPendingMove(null), [logs])
+
+  // Arrow keys step through days while the timeline has focus, unless someone is typing
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement
+    if (target.closest('input, textarea, select, [contenteditable="true"]')) return
+    if (e.key === 'ArrowLeft') onChangeDay(addDays(day, -1))
+    if (e.key === 'ArrowRight' && day < today) onChangeDay(addDays(day, 1))
+  }
+
+  // Latest minute an entry can be dragged to: now on today, the end of the day otherwise
+  const maxMinute = day === today ? getMinuteOfDay(new Date().toISOString()) : MINUTES_PER_DAY - 1
+
+  const handlePointerDown = (e: React.PointerEvent, log: LogEntry, minute: number) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({ logId: log.id, startY: e.clientY, startMinute: minute, minute })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return
+    const offset = ((e.clientY - drag.startY) / HOUR_HEIGHT) * 60
+    const snapped = Math.round((drag.startMinute + offset) / SNAP_MINUTES) * SNAP_MINUTES
+    setDrag({ ...drag, minute: Math.min(Math.max(snapped, 0), maxMinute) })
+  }
+
+  const handlePointerUp = async (log: LogEntry) => {
+    if (!drag) return
+    const { minute, startMinute } = drag
+    setDrag(null)
+    if (minute === startMinute) return
+
+    const timestamp = new Date(log.timestamp)
+    timestamp.setHours(Math.floor(minute / 60), minute % 60, 0, 0)
+    setPendingMove({ logId: log.id, minute })
+    if (!await onMoveLog(log.id, timestamp)) setPendingMove(null)
+  }
+
+  const title = parseLocalDateKey(day).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    year: day.slice(0, 4) !== today.slice(0, 4) ? 'numeric' : undefined
+  })
+  const navButtonClassName = 'p-1 text-gray-500 hover:text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent rounded transition-colors'
+
+  return (
+    <div
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      aria-label="Day timeline, use the arrow keys to change day"
+      className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 space-y-3 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-indigo-300"
+    >
+      <div className="flex items-center justify-between gap-1">
+        <div className="flex items-center">
+          <button
+            onClick={() => previousLoggedDay && onChangeDay(previousLoggedDay)}
+            disabled={!previousLoggedDay}
+            className={navButtonClassName}
+            title="Previous day with entries"
+          >
+            <ChevronsLeft className="w-4 h-4" />
+          </button>
+          <button onClick={() => onChangeDay(addDays(day, -1))} className={navButtonClassName} title="Previous day">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="text-center">
+          <p className="text-sm font-medium text-gray-700">{title}</p>
+          <p className="text-[10px] text-gray-400">
+            {dayLogs.length} {dayLogs.length === 1 ? 'entry' : 'entries'}
+            {day !== today && (
+              <>
+                {' · '}
+                <button onClick={() => onChangeDay(today)} className="text-indigo-600 hover:text-indigo-700">Today</button>
+              </>
+            )}
+          </p>
+        </div>
+        <div className="flex items-center">
+          <button
+            onClick={() => onChangeDay(addDays(day, 1))}
+            disabled={day >= today}
+            className={navButtonClassName}
+            title="Next day"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => nextLoggedDay && onChangeDay(nextLoggedDay)}
+            disabled={!nextLoggedDay}
+            className={navButtonClassName}
+            title="Next day with entries"
+          >
+            <ChevronsRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="max-h-[32rem] overflow-y-auto">
+        <div className="relative" style={{ height }}>
+          {/* Hour grid */}
+          {Array.from({ length: 24 }, (_, hour) => (
+            <div key={hour} className="absolute left-0 right-0 flex items-start" style={{ top: toY(hour * 60) }}>
+              <span className="w-12 -mt-1.5 pr-2 text-right text-[10px] text-gray-400">{hour === 0 ? '' : formatMinute(hour * 60).replace(':00', '')}</span>
+              <span className="flex-1 border-t border-gray-100" />
+            </div>
+          ))}
+
+          {/* Attention bands, each in the color of the entry that starts it */}
+          {dayLogs.slice(0, -1).map(({ log, minute }, index) => (
+            <div
+              key={log.id}
+              className="absolute w-1.5 rounded-full"
+              title={attentionStates.find(a => a.value === log.attention)?.label}
+              style={{
+                left: 48,
+                top: toY(minute),
+                height: Math.max(toY(dayLogs[index + 1].minute) - toY(minute), 2),
+                backgroundColor: ATTENTION_COLORS[log.attention] ?? '#d1d5db',
+                opacity: 0.8
+              }}
+            />
+          ))}
+
+          {/* Energy line */}
+          <svg className="absolute overflow-visible pointer-events-none" style={{ left: 60, top: 0, width: ENERGY_WIDTH, height }}>
+            {energyLevels.map(level => (
+              <line key={level.value} x1={toEnergyX(level.value)} x2={toEnergyX(level.value)} y1={0} y2={height} stroke="#f9fafb" />
+            ))}
+            {dayLogs.length > 1 && (
+              <polyline
+                points={dayLogs.map(({ log, minute }) => `${toEnergyX(log.energy)},${toY(minute)}`).join(' ')}
+                fill="none"
+                stroke="#6366f1"
+                strokeWidth={2}
+              />
+            )}
+            {dayLogs.map(({ log, minute }) => (
+              <circle
+                key={log.id}
+                cx={toEnergyX(log.energy)}
+                cy={toY(minute)}
+                r={4}
+                fill={energyLevels.find(l => l.value === log.energy)?.color ?? '#6366f1'}
+                stroke="white"
+                strokeWidth={1.5}
+              />
+            ))}
+          </svg>
+
+          {/* Entries */}
+          {dayLogs.map(({ log, minute }, index) => {
+            const logEnergy = energyLevels.find(l => l.value === log.energy)
+            const logAttention = attentionStates.find(a => a.value === log.attention)
+            const isDragging = drag?.logId === log.id
+            const left = 60 + ENERGY_WIDTH + 8
+
+            return (
+              <div key={log.id}>
+                {/* Connects a pushed-down card to its actual time */}
+                <div
+                  className="absolute border-t border-dashed border-gray-300"
+                  style={{ left: 60 + toEnergyX(log.energy), right: `calc(100% - ${left}px)`, top: toY(minute) }}
+                />
+                <div
+                  className={`absolute right-0 flex gap-2 rounded-lg border bg-white p-2 ${
+                    isDragging ? 'border-indigo-400 shadow-md z-10' : 'border-gray-100 shadow-sm'
+                  }`}
+                  style={{ left, top: cardTops[index], height: CARD_HEIGHT }}
+                >
+                  <button
+                    onPointerDown={(e) => handlePointerDown(e, log, minute)}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => handlePointerUp(log)}
+                    onPointerCancel={() => setDrag(null)}
+                    className="flex items-center text-gray-300 hover:text-gray-500 cursor-grab active:cursor-grabbing touch-none"
+                    title="Drag to change the time"
+                    aria-label={`Move entry at ${formatMinute(minute)}`}
+                  >
+                    <GripVertical className="w-4 h-4" />
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <p className="flex items-center gap-1 text-xs text-gray-700">
+                      <span className={`font-medium tabular-nums ${isDragging ? 'text-indigo-600' : ''}`}>{formatMinute(minute)}</span>
+                      <span>{logEnergy?.icon}</span>
+                      <span className="truncate">{logEnergy?.label}</span>
+                      <span>{logAttention?.emoji}</span>
+                    </p>
+                    {log.note && <p className="text-xs text-gray-500 italic line-clamp-2">{log.note}</p>}
+                  </div>
+                  {log.imageRef && (
+                    <div
+                      className="flex-shrink-0 h-full aspect-square rounded overflow-hidden border border-gray-200 cursor-pointer hover:opacity-90 transition-opacity"
+                      onClick={() => onExpandImage(log.imageRef!)}
+                    >
+                      <LogImage imageRef={log.imageRef} alt="Log screenshot" className="w-full h-full object-cover" />
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+
+          {dayLogs.length === 0 && (
+            <p className="absolute inset-x-0 text-center text-sm text-gray-400" style={{ top: toY(firstMinute ?? 8 * 60) + HOUR_HEIGHT / 2 }}>
+              Nothing logged this day.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { energyLevels, attentionStates } from '@/lib/logs/constants'
+import { addDays, getLocalDateKey, groupLogsByDay, parseLocalDateKey } from '@/lib/logs/days'
+import type { StreakData } from '@/lib/logs/streaks'
+import type { LogEntry } from '@/lib/logs/types'
+import { WEEKDAYS, getWeekdayIndex } from '@/lib/insights/patterns'
+
+interface HistoryCalendarProps {
+  logs: LogEntry[]
+  streakData: StreakData
+  // Month to open on, as any date key inside it
+  initialDay: string | null
+  onSelectDay: (day: string) => void
+}
+
+interface DaySummary {
+  count: number
+  average: number
+  attentionEmoji: string | undefined
+}
+
+const summarizeDay = (logs: LogEntry[]): DaySummary => {
+  const counts = attentionStates.map(state => logs.filter(log => log.attention === state.value).length)
+  return {
+    count: logs.length,
+    average: logs.reduce((sum, log) => sum + log.energy, 0) / logs.length,
+    attentionEmoji: attentionStates[counts.indexOf(Math.max(...counts))]?.emoji
+  }
+}
+
+const getMonthKey = (day: string) => day.slice(0, 7)
+
+const shiftMonth = (month: string, offset: number) => {
+  const [year, monthIndex] = month.split('-').map(Number)
+  return getMonthKey(getLocalDateKey(new Date(year, monthIndex - 1 + offset, 1)))
+}
+
+// Days of the current streak, from its first day through the last logged day
+const getStreakDays = (streakData: StreakData): Set<string> => {
+  const days = new Set<string>()
+  if (streakData.dayCount === 0 || !streakData.streakStartDate || !streakData.lastLogDate) return days
+  const last = getLocalDateKey(streakData.lastLogDate)
+  for (let day = getLocalDateKey(streakData.streakStartDate); day <= last; day = addDays(day, 1)) {
+    days.add(day)
+  }
+  return days
+}
+
+// Month grid of History: each day tinted by its average energy level, with its entry count and
+// most common attention state. Selecting a day narrows History to it.
+export function HistoryCalendar({ logs, streakData, initialDay, onSelectDay }: HistoryCalendarProps) {
+  const today = getLocalDateKey(new Date())
+  const [month, setMonth] = useState(() => getMonthKey(initialDay ?? today))
+
+  const summaries = useMemo(() => {
+    const byDay = new Map<string, DaySummary>()
+    groupLogsByDay(logs).forEach((dayLogs, day) => byDay.set(day, summarizeDay(dayLogs)))
+    return byDay
+  }, [logs])
+  const streakDays = useMemo(() => getStreakDays(streakData), [streakData])
+
+  const firstDay = `${month}-01`
+  const leadingBlanks = getWeekdayIndex(parseLocalDateKey(firstDay))
+  const days: string[] = []
+  for (let day = firstDay; getMonthKey(day) === month; day = addDays(day, 1)) {
+    days.push(day)
+  }
+
+  const title = parseLocalDateKey(firstDay).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+  const isCurrentMonth = month >= getMonthKey(today)
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setMonth(shiftMonth(month, -1))}
+          className="p-1 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors"
+          aria-label="Previous month"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <span className="text-sm font-medium text-gray-700">{title}</span>
+        <button
+          onClick={() => setMonth(shiftMonth(month, 1))}
+          disabled={isCurrentMonth}
+          className="p-1 text-gray-500 hover:text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent rounded transition-colors"
+          aria-label="Next month"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAYS.map(weekday => (
+          <div key={weekday} className="text-center text-[10px] text-gray-400">{weekday}</div>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, index) => <div key={`blank-${index}`} />)}
+        {days.map(day => {
+          const summary = summaries.get(day)
+          const level = summary && energyLevels.find(l => l.value === Math.round(summary.average))
+          const isStreakDay = streakDays.has(day)
+          const dayNumber = Number(day.slice(8))
+
+          if (!summary) {
+            return (
+              <div
+                key={day}
+                className={`aspect-square rounded-md p-1 text-[10px] sm:text-xs ${
+                  day === today ? 'ring-1 ring-gray-300' : ''
+                } ${day > today ? 'text-gray-200' : 'text-gray-400'}`}
+              >
+                {dayNumber}
+              </div>
+            )
+          }
+
+          return (
+            <button
+              key={day}
+              onClick={() => onSelectDay(day)}
+              title={`${summary.count} ${summary.count === 1 ? 'entry' : 'entries'}, average energy ${summary.average.toFixed(1)}${level ? ` (${level.label})` : ''}${isStreakDay ? ' • part of your streak' : ''}`}
+              className={`relative aspect-square rounded-md p-1 flex flex-col justify-between text-left hover:ring-2 hover:ring-indigo-400 transition-shadow ${
+                isStreakDay ? 'ring-2 ring-orange-400' : day === today ? 'ring-1 ring-gray-300' : ''
+              }`}
+              style={{ backgroundColor: level ? `${level.color}40` : undefined }}
+            >
+              <span className="flex items-center justify-between text-[10px] sm:text-xs text-gray-700 font-medium">
+                {dayNumber}
+                {isStreakDay && <span className="text-[10px]" aria-hidden>🔥</span>}
+              </span>
+              <span className="flex items-center justify-between text-[10px] sm:text-xs">
+                <span className="text-gray-600 tabular-nums">{summary.count}</span>
+                <span>{summary.attentionEmoji}</span>
+              </span>
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] text-gray-500">
+        {energyLevels.map(level => (
+          <span key={level.value} className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: `${level.color}40` }} />
+            {level.label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="w-2.5 h-2.5 rounded-sm ring-2 ring-orange-400" />
+          Streak
+        </span>
+      </div>
+    </div>
+  )
+}
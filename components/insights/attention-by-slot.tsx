@@ -0,0 +1,59 @@
+'use client'
+
+import { attentionStates } from '@/lib/logs/constants'
+import { ATTENTION_COLORS } from '@/lib/insights/colors'
+import { MIN_SAMPLE_SIZE, formatHour, type SlotAttention } from '@/lib/insights/patterns'
+
+interface AttentionBySlotProps {
+  slots: SlotAttention[]
+}
+
+// One stacked bar per part of the day, showing how attention splits within it
+export function AttentionBySlot({ slots }: AttentionBySlotProps) {
+  return (
+    <div className="space-y-3">
+      <h2 className="text-lg font-semibold text-gray-800">Attention through the day</h2>
+
+      <div className="space-y-2">
+        {slots.map(slot => (
+          <div key={slot.id} className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-gray-600">
+              <span>
+                {slot.label} <span className="text-gray-400">{formatHour(slot.startHour)}–{formatHour(slot.endHour % 24)}</span>
+              </span>
+              <span className="text-gray-400">
+                {slot.total === 0
+                  ? 'No entries'
+                  : `${slot.total} ${slot.total === 1 ? 'entry' : 'entries'}${slot.total < MIN_SAMPLE_SIZE ? ' · too few to tell' : ''}`}
+              </span>
+            </div>
+            <div className={`flex h-4 rounded overflow-hidden bg-gray-100 ${slot.total < MIN_SAMPLE_SIZE ? 'opacity-40' : ''}`}>
+              {slot.total > 0 && attentionStates.map(state => {
+                const count = slot.counts[state.value] ?? 0
+                if (count === 0) return null
+                const share = Math.round((count / slot.total) * 100)
+                return (
+                  <div
+                    key={state.value}
+                    title={`${state.label}: ${count} (${share}%)`}
+                    className="h-full"
+                    style={{ width: `${(count / slot.total) * 100}%`, backgroundColor: ATTENTION_COLORS[state.value] }}
+                  />
+                )
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+        {attentionStates.map(state => (
+          <span key={state.value} className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-[2px]" style={{ backgroundColor: ATTENTION_COLORS[state.value] }} />
+            {state.emoji} {state.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+'use client'
+
+import { attentionStates } from '@/lib/logs/constants'
+import { parseLocalDateKey } from '@/lib/logs/days'
+import { ATTENTION_COLORS } from '@/lib/insights/colors'
+import { MIN_SAMPLE_SIZE } from '@/lib/insights/patterns'
+import type { TrendPoint } from '@/lib/insights/trends'
+
+interface AttentionShareChartProps {
+  weekly: TrendPoint[]
+}
+
+const formatWeek = (day: string) =>
+  parseLocalDateKey(day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+// One 100% bar per week: how that week's entries split between attention states
+export function AttentionShareChart({ weekly }: AttentionShareChartProps) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-end gap-px h-24">
+        {weekly.map(week => (
+          <div
+            key={week.day}
+            title={week.count === 0
+              ? `Week of ${formatWeek(week.day)}: no entries`
+              : `Week of ${formatWeek(week.day)}: ${attentionStates.map(state => `${week.attention[state.value] ?? 0} ${state.label.toLowerCase()}`).join(', ')}`}
+            className={`flex-1 h-full flex flex-col-reverse rounded-sm overflow-hidden bg-gray-100 ${
+              week.count > 0 && week.count < MIN_SAMPLE_SIZE ? 'opacity-40' : ''
+            }`}
+          >
+            {week.count > 0 && attentionStates.map(state => (
+              <div
+                key={state.value}
+                style={{
+                  height: `${((week.attention[state.value] ?? 0) / week.count) * 100}%`,
+                  backgroundColor: ATTENTION_COLORS[state.value]
+                }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      {weekly.length > 0 && (
+        <div className="flex justify-between text-[10px] text-gray-400">
+          <span>{formatWeek(weekly[0].day)}</span>
+          <span>{formatWeek(weekly[weekly.length - 1].day)}</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { LogEntry } from '@/lib/logs/types'
+import { energyLevels } from '@/lib/logs/constants'
+import { formatEnergy } from '@/lib/insights/colors'
+import {
+  readCircadianState,
+  saveCircadianState,
+  updateCircadianState,
+  fitCircadianCurve,
+  findCurveWindows,
+  type CircadianState,
+  type CurvePoint,
+  type CurveWindow
+} from '@/lib/insights/circadian'
+
+interface CircadianCurveProps {
+  userId: string
+  logs: LogEntry[]
+}
+
+const WIDTH = 480
+const HEIGHT = 200
+const PADDING = { top: 8, right: 8, bottom: 20, left: 24 }
+const MINUTES_PER_DAY = 24 * 60
+
+const x = (minute: number) => PADDING.left + (minute / MINUTES_PER_DAY) * (WIDTH - PADDING.left - PADDING.right)
+const y = (energy: number) => PADDING.top + ((5 - energy) / 4) * (HEIGHT - PADDING.top - PADDING.bottom)
+
+const formatMinute = (minute: number) =>
+  new Date(2000, 0, 1, 0, minute).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+
+// Stretches of consecutive points that have data; gaps break the line instead of bridging them
+const getRuns = (curve: CurvePoint[]) => {
+  const runs: CurvePoint[][] = []
+  curve.forEach((point, index) => {
+    if (point.mean === null) return
+    if (index === 0 || curve[index - 1].mean === null) runs.push([])
+    runs[runs.length - 1].push(point)
+  })
+  return runs
+}
+
+// Window as one or two shaded rects, split at midnight when it wraps
+const renderWindow = (window: CurveWindow, color: string) => {
+  const spans = window.endMinute > window.startMinute
+    ? [[window.startMinute, window.endMinute]]
+    : [[window.startMinute, MINUTES_PER_DAY], [0, window.endMinute]]
+  return spans.map(([start, end]) => (
+    <rect
+      key={`${color}-${start}`}
+      x={x(start)}
+      y={PADDING.top}
+      width={x(end) - x(start)}
+      height={HEIGHT - PADDING.top - PADDING.bottom}
+      fill={color}
+      opacity={0.12}
+    />
+  ))
+}
+
+// The user's typical energy through the day, with a 95% confidence band around the average
+export function CircadianCurve({ userId, logs }: CircadianCurveProps) {
+  const [state, setState] = useState<CircadianState | null>(null)
+
+  useEffect(() => {
+    const stored = readCircadianState(userId)
+    const updated = updateCircadianState(stored, logs)
+    if (updated !== stored) {
+      try {
+        saveCircadianState(updated)
+      } catch (error) {
+        console.error('Error saving circadian curve:', error)
+      }
+    }
+    setState(updated)
+  }, [userId, logs])
+
+  const curve = useMemo(() => state ? fitCircadianCurve(state) : [], [state])
+  const { peak, trough } = useMemo(() => findCurveWindows(curve), [curve])
+  const runs = getRuns(curve)
+  const isDistinct = peak && trough && peak.lower > trough.upper
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-lg font-semibold text-gray-800">Your daily rhythm</h2>
+
+      {runs.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">
+          Not enough entries at similar times of day to draw a curve yet.
+        </p>
+      ) : (
+        <>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Average energy by time of day">
+            {energyLevels.map(level => (
+              <g key={level.value}>
+                <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(level.value)} y2={y(level.value)} stroke="#f3f4f6" />
+                <text x={PADDING.left - 6} y={y(level.value) + 3} textAnchor="end" fontSize={10} fill="#9ca3af">{level.value}</text>
+              </g>
+            ))}
+            {[0, 6, 12, 18, 24].map(hour => (
+              <text key={hour} x={x(hour * 60)} y={HEIGHT - 6} textAnchor="middle" fontSize={10} fill="#9ca3af">
+                {formatMinute((hour % 24) * 60).replace(':00', '')}
+              </text>
+            ))}
+
+            {peak && renderWindow(peak, '#22c55e')}
+            {trough && trough !== peak && renderWindow(trough, '#ef4444')}
+
+            {runs.map(run => (
+              <g key={run[0].minute}>
+                <path
+                  d={[
+                    ...run.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.minute)},${y(point.upper!)}`),
+                    ...[...run].reverse().map(point => `L${x(point.minute)},${y(point.lower!)}`),
+                    'Z'
+                  ].join(' ')}
+                  fill="#6366f1"
+                  opacity={0.15}
+                />
+                <path
+                  d={run.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.minute)},${y(point.mean!)}`).join(' ')}
+                  fill="none"
+                  stroke="#4f46e5"
+                  strokeWidth={2}
+                />
+              </g>
+            ))}
+          </svg>
+
+          <div className="space-y-1 text-xs text-gray-600">
+            {peak && (
+              <p>
+                <span className="inline-block w-2 h-2 rounded-full bg-green-500 mr-1" />
+                Peak: {formatMinute(peak.startMinute)}–{formatMinute(peak.endMinute)}, averaging {formatEnergy(peak.mean)}
+              </p>
+            )}
+            {trough && trough !== peak && (
+              <p>
+                <span className="inline-block w-2 h-2 rounded-full bg-red-500 mr-1" />
+                Trough: {formatMinute(trough.startMinute)}–{formatMinute(trough.endMinute)}, averaging {formatEnergy(trough.mean)}
+              </p>
+            )}
+            {peak && trough && trough !== peak && !isDistinct && (
+              <p className="text-gray-500">
+                The peak and trough overlap within their confidence bands, so the difference may just be noise so far.
+              </p>
+            )}
+            <p className="text-gray-400">
+              The shaded band is a 95% confidence interval for the average. Gaps are times of day with too few entries nearby.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
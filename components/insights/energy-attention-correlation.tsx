@@ -0,0 +1,66 @@
+'use client'
+
+import { attentionStates } from '@/lib/logs/constants'
+import { MIN_ENTRIES_FOR_PATTERNS, MIN_SAMPLE_SIZE } from '@/lib/insights/patterns'
+import { describeCorrelation, type JointDistribution } from '@/lib/insights/correlation'
+import { formatEnergyLevel, formatAttentionState } from '@/lib/insights/labels'
+import { ShareMatrix } from './share-matrix'
+
+interface EnergyAttentionCorrelationProps {
+  distribution: JointDistribution
+}
+
+// Energized and Peaked
+const HIGH_ENERGY = 4
+
+// Whether higher energy goes with deeper attention: attention split per energy level,
+// plus the one comparison people usually ask about, hyperfocus at high energy vs the rest
+export function EnergyAttentionCorrelation({ distribution }: EnergyAttentionCorrelationProps) {
+  const sumRows = (predicate: (energy: number) => boolean) => {
+    const rows = distribution.rows.filter(row => predicate(Number(row.key)))
+    return {
+      total: rows.reduce((sum, row) => sum + row.total, 0),
+      hyperfocused: rows.reduce((sum, row) => sum + (row.counts.hyperfocused ?? 0), 0)
+    }
+  }
+  const high = sumRows(energy => energy >= HIGH_ENERGY)
+  const rest = sumRows(energy => energy < HIGH_ENERGY)
+  const canCompare = high.total >= MIN_SAMPLE_SIZE && rest.total >= MIN_SAMPLE_SIZE
+  const share = ({ total, hyperfocused }: { total: number; hyperfocused: number }) =>
+    `${Math.round((hyperfocused / total) * 100)}%`
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-lg font-semibold text-gray-800">Energy and attention</h2>
+
+      <ShareMatrix
+        rows={[...distribution.rows].reverse()}
+        columnKeys={attentionStates.map(state => state.value)}
+        renderRowLabel={formatEnergyLevel}
+        renderColumnLabel={formatAttentionState}
+        color="#4f46e5"
+      />
+
+      <div className="space-y-1 text-xs text-gray-600">
+        <p>
+          {canCompare ? (
+            <>
+              Hyperfocused in <strong>{share(high)}</strong> of {high.total} Energized or Peaked entries,
+              and <strong>{share(rest)}</strong> of {rest.total} others.
+            </>
+          ) : (
+            `Not enough entries at both high and lower energy to compare yet (needs ${MIN_SAMPLE_SIZE} of each).`
+          )}
+        </p>
+        {distribution.correlation !== null && distribution.total >= MIN_SAMPLE_SIZE && (
+          <p className="text-gray-500">
+            Across {distribution.total} entries: {describeCorrelation(distribution.correlation)} between energy and
+            attention (r = {distribution.correlation.toFixed(2)}).
+            {distribution.total < MIN_ENTRIES_FOR_PATTERNS && ' With this few entries, treat it as a hint rather than a finding.'}
+          </p>
+        )}
+        <p className="text-gray-400">Each row shows how that energy level&apos;s entries split; n is the number of entries.</p>
+      </div>
+    </div>
+  )
+}
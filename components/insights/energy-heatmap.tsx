@@ -0,0 +1,118 @@
+'use client'
+
+import { useState } from 'react'
+import { energyLevels } from '@/lib/logs/constants'
+import { getEnergyColor, formatEnergy } from '@/lib/insights/colors'
+import { MIN_SAMPLE_SIZE, WEEKDAYS, formatHour, type EnergyCell, type EnergyHeatmap as Heatmap } from '@/lib/insights/patterns'
+
+interface EnergyHeatmapProps {
+  heatmap: Heatmap
+}
+
+type HeatmapMode = 'energy' | 'count'
+
+const HOUR_LABEL_STEP = 3
+
+const pluralize = (count: number) => `${count} ${count === 1 ? 'entry' : 'entries'}`
+
+// Hour of day across, weekday down. Empty cells stay blank rather than implying a value,
+// and cells with only a couple of entries are faded so a single log doesn't read as a pattern.
+export function EnergyHeatmap({ heatmap }: EnergyHeatmapProps) {
+  const [mode, setMode] = useState<HeatmapMode>('energy')
+
+  const getCellStyle = (cell: EnergyCell): React.CSSProperties | undefined => {
+    if (cell.average === null) return undefined
+    if (mode === 'count') {
+      return { backgroundColor: `rgba(79, 70, 229, ${0.15 + 0.85 * (cell.count / heatmap.maxCount)})` }
+    }
+    return {
+      backgroundColor: getEnergyColor(cell.average),
+      opacity: cell.count < MIN_SAMPLE_SIZE ? 0.35 : 1
+    }
+  }
+
+  const describeCell = (cell: EnergyCell, label: string) =>
+    cell.average === null
+      ? `${label}: no entries`
+      : `${label}: ${mode === 'energy' ? `average energy ${formatEnergy(cell.average)}, ` : ''}${pluralize(cell.count)}`
+
+  // Row totals: the weekday's average or entry count
+  const formatTotal = (cell: EnergyCell) => {
+    if (mode === 'count') return cell.count
+    return cell.average === null ? '–' : formatEnergy(cell.average)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-800">When your energy lands</h2>
+        <div className="flex rounded-lg bg-gray-100 p-0.5 text-xs">
+          {([['energy', 'Energy'], ['count', 'Entries']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`px-2 py-1 rounded-md transition-colors ${
+                mode === value ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        className="grid gap-px text-[10px] text-gray-500"
+        style={{ gridTemplateColumns: 'auto repeat(24, minmax(0, 1fr)) auto' }}
+      >
+        <div />
+        {Array.from({ length: 24 }, (_, hour) => (
+          <div key={hour} className="text-center">
+            {hour % HOUR_LABEL_STEP === 0 ? formatHour(hour).replace(' ', '').toLowerCase() : ''}
+          </div>
+        ))}
+        <div />
+
+        {heatmap.cells.map((row, weekday) => (
+          <div key={WEEKDAYS[weekday]} className="contents">
+            <div className="pr-1 flex items-center">{WEEKDAYS[weekday]}</div>
+            {row.map((cell, hour) => (
+              <div
+                key={hour}
+                title={describeCell(cell, `${WEEKDAYS[weekday]} ${formatHour(hour)}`)}
+                className="aspect-square rounded-[2px] bg-gray-100"
+                style={getCellStyle(cell)}
+              />
+            ))}
+            <div className="pl-1 flex items-center justify-end tabular-nums" title={describeCell(heatmap.byWeekday[weekday], WEEKDAYS[weekday])}>
+              {formatTotal(heatmap.byWeekday[weekday])}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {mode === 'energy' ? (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+          {energyLevels.map(level => (
+            <span key={level.value} className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-[2px]" style={{ backgroundColor: level.color }} />
+              {level.label}
+            </span>
+          ))}
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-[2px] opacity-35" style={{ backgroundColor: energyLevels[2].color }} />
+            Fewer than {MIN_SAMPLE_SIZE} entries
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-[2px] bg-gray-100" />
+            No entries
+          </span>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Darker cells have more entries, up to {pluralize(heatmap.maxCount)} in one hour.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { energyLevels } from '@/lib/logs/constants'
+import { parseLocalDateKey } from '@/lib/logs/days'
+import { formatEnergy } from '@/lib/insights/colors'
+import type { TrendAnomaly, TrendPoint } from '@/lib/insights/trends'
+
+interface EnergyTrendChartProps {
+  daily: TrendPoint[]
+  weekly: TrendPoint[]
+  // Aligned with daily
+  shortAverage: (number | null)[]
+  longAverage: (number | null)[]
+  anomalies: TrendAnomaly[]
+}
+
+const WIDTH = 480
+const HEIGHT = 200
+const PADDING = { top: 8, right: 8, bottom: 20, left: 24 }
+
+export const SHORT_AVERAGE_COLOR = '#4f46e5'
+export const LONG_AVERAGE_COLOR = '#f59e0b'
+
+const y = (energy: number) => PADDING.top + ((5 - energy) / 4) * (HEIGHT - PADDING.top - PADDING.bottom)
+
+const formatDay = (day: string) =>
+  parseLocalDateKey(day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+// Daily averages as dots, weekly averages as flat segments, and the two moving averages as lines
+export function EnergyTrendChart({ daily, weekly, shortAverage, longAverage, anomalies }: EnergyTrendChartProps) {
+  const dayIndex = new Map(daily.map((point, index) => [point.day, index]))
+  const span = Math.max(daily.length - 1, 1)
+  const x = (index: number) => PADDING.left + (index / span) * (WIDTH - PADDING.left - PADDING.right)
+
+  // Breaks the line wherever the average is null
+  const toPath = (values: (number | null)[]) =>
+    values
+      .map((value, index) => {
+        if (value === null) return ''
+        return `${index === 0 || values[index - 1] === null ? 'M' : 'L'}${x(index)},${y(value)}`
+      })
+      .join(' ')
+
+  const labelIndexes = Array.from(new Set([0, Math.floor((daily.length - 1) / 2), daily.length - 1]))
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Average energy over time">
+      {energyLevels.map(level => (
+        <g key={level.value}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(level.value)} y2={y(level.value)} stroke="#f3f4f6" />
+          <text x={PADDING.left - 6} y={y(level.value) + 3} textAnchor="end" fontSize={10} fill="#9ca3af">{level.value}</text>
+        </g>
+      ))}
+      {labelIndexes.map(index => (
+        <text
+          key={index}
+          x={x(index)}
+          y={HEIGHT - 6}
+          textAnchor={index === 0 ? 'start' : index === daily.length - 1 ? 'end' : 'middle'}
+          fontSize={10}
+          fill="#9ca3af"
+        >
+          {formatDay(daily[index].day)}
+        </text>
+      ))}
+
+      {weekly.map(week => {
+        const start = dayIndex.get(week.day)
+        if (week.average === null || start === undefined) return null
+        const end = Math.min(start + 6, daily.length - 1)
+        return (
+          <line
+            key={week.day}
+            x1={x(start)}
+            x2={x(end)}
+            y1={y(week.average)}
+            y2={y(week.average)}
+            stroke="#9ca3af"
+            strokeWidth={3}
+            strokeLinecap="round"
+            opacity={0.5}
+          >
+            <title>Week of {formatDay(week.day)}: {formatEnergy(week.average)} over {week.count} entries</title>
+          </line>
+        )
+      })}
+
+      {daily.map((point, index) => point.average !== null && (
+        <circle key={point.day} cx={x(index)} cy={y(point.average)} r={2} fill="#d1d5db">
+          <title>{formatDay(point.day)}: {formatEnergy(point.average)} over {point.count} {point.count === 1 ? 'entry' : 'entries'}</title>
+        </circle>
+      ))}
+
+      <path d={toPath(longAverage)} fill="none" stroke={LONG_AVERAGE_COLOR} strokeWidth={2} />
+      <path d={toPath(shortAverage)} fill="none" stroke={SHORT_AVERAGE_COLOR} strokeWidth={2} />
+
+      {anomalies.map(anomaly => {
+        const index = dayIndex.get(anomaly.day)
+        if (index === undefined) return null
+        return (
+          <circle
+            key={anomaly.day}
+            cx={x(index)}
+            cy={y(anomaly.average)}
+            r={5}
+            fill="none"
+            stroke={anomaly.kind === 'low' ? '#ef4444' : '#22c55e'}
+            strokeWidth={2}
+          >
+            <title>{formatDay(anomaly.day)}: unusually {anomaly.kind}</title>
+          </circle>
+        )
+      })}
+    </svg>
+  )
+}
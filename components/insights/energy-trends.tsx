@@ -0,0 +1,163 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { ArrowRight } from 'lucide-react'
+import type { LogEntry } from '@/lib/logs/types'
+import { attentionStates } from '@/lib/logs/constants'
+import { getHistoryDayPath, getLocalDateKey, parseLocalDateKey } from '@/lib/logs/days'
+import { ATTENTION_COLORS, formatEnergy } from '@/lib/insights/colors'
+import {
+  findAnomalies,
+  getDailyTrend,
+  getMovingAverage,
+  getRecentDays,
+  getWeeklyTrend
+} from '@/lib/insights/trends'
+import { EnergyTrendChart, SHORT_AVERAGE_COLOR, LONG_AVERAGE_COLOR } from './energy-trend-chart'
+import { AttentionShareChart } from './attention-share-chart'
+
+interface EnergyTrendsProps {
+  logs: LogEntry[]
+}
+
+const RANGES = [
+  { label: '3 months', days: 90 },
+  { label: 'Year', days: 365 },
+  { label: 'All', days: null }
+]
+
+const MAX_ANOMALIES = 10
+
+// Energy and attention over time, with days that stood out linked back to History
+export function EnergyTrends({ logs }: EnergyTrendsProps) {
+  const [rangeDays, setRangeDays] = useState<number | null>(90)
+
+  // Averages and baselines use the full history so the start of a range isn't starved of data
+  const daily = useMemo(() => getDailyTrend(logs), [logs])
+  const weekly = useMemo(() => getWeeklyTrend(logs), [logs])
+  const shortAverage = useMemo(() => getMovingAverage(daily, 7), [daily])
+  const longAverage = useMemo(() => getMovingAverage(daily, 30), [daily])
+  const anomalies = useMemo(() => findAnomalies(daily), [daily])
+
+  const firstIndex = daily.length - getRecentDays(daily, rangeDays).length
+  const visibleDaily = daily.slice(firstIndex)
+  const visibleWeekly = weekly.filter(week => visibleDaily.length > 0 && week.day >= visibleDaily[0].day)
+  const visibleAnomalies = anomalies.filter(anomaly => visibleDaily.length > 0 && anomaly.day >= visibleDaily[0].day)
+
+  const notesByDay = useMemo(() => {
+    const notes = new Map<string, string[]>()
+    logs.forEach(log => {
+      if (!log.note) return
+      const day = getLocalDateKey(log.timestamp)
+      notes.set(day, [...(notes.get(day) ?? []), log.note])
+    })
+    return notes
+  }, [logs])
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-800">Trends</h2>
+        <div className="flex rounded-lg bg-gray-100 p-0.5 text-xs">
+          {RANGES.map(range => (
+            <button
+              key={range.label}
+              onClick={() => setRangeDays(range.days)}
+              className={`px-2 py-1 rounded-md transition-colors ${
+                rangeDays === range.days ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {visibleDaily.length < 2 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">
+          Trends need entries on at least two different days in this range.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <EnergyTrendChart
+              daily={visibleDaily}
+              weekly={visibleWeekly}
+              shortAverage={shortAverage.slice(firstIndex)}
+              longAverage={longAverage.slice(firstIndex)}
+              anomalies={visibleAnomalies}
+            />
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+              <span className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full bg-gray-300" />
+                Daily average
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-1 rounded bg-gray-400 opacity-50" />
+                Weekly average
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-0.5" style={{ backgroundColor: SHORT_AVERAGE_COLOR }} />
+                7-day average
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-0.5" style={{ backgroundColor: LONG_AVERAGE_COLOR }} />
+                30-day average
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">Attention by week</h3>
+            <AttentionShareChart weekly={visibleWeekly} />
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+              {attentionStates.map(state => (
+                <span key={state.value} className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded-[2px]" style={{ backgroundColor: ATTENTION_COLORS[state.value] }} />
+                  {state.emoji} {state.label}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">Days that stood out</h3>
+            {visibleAnomalies.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                Nothing unusual in this range. Each day is compared with the logged days in the month before it, once there are at least seven.
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {[...visibleAnomalies].reverse().slice(0, MAX_ANOMALIES).map(anomaly => {
+                  const notes = notesByDay.get(anomaly.day) ?? []
+                  return (
+                    <Link
+                      key={anomaly.day}
+                      href={getHistoryDayPath(anomaly.day)}
+                      className="flex items-center gap-2 text-xs text-gray-700 bg-gray-50 hover:bg-gray-100 rounded px-2 py-1.5 transition-colors"
+                    >
+                      <span className={`w-2 h-2 shrink-0 rounded-full ${anomaly.kind === 'low' ? 'bg-red-500' : 'bg-green-500'}`} />
+                      <span className="shrink-0 text-gray-500">
+                        {parseLocalDateKey(anomaly.day).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                      </span>
+                      <span className="shrink-0">
+                        {formatEnergy(anomaly.average)} vs usual {formatEnergy(anomaly.baseline)}
+                        <span className="text-gray-400"> ({anomaly.count})</span>
+                      </span>
+                      {notes.length > 0 && <span className="truncate italic text-gray-500">{notes.join(' · ')}</span>}
+                      <ArrowRight className="w-3 h-3 ml-auto shrink-0 text-gray-400" />
+                    </Link>
+                  )
+                })}
+                {visibleAnomalies.length > MAX_ANOMALIES && (
+                  <p className="text-xs text-gray-500 px-2">and {visibleAnomalies.length - MAX_ANOMALIES} earlier</p>
+                )}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
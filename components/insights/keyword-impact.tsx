@@ -0,0 +1,170 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { ChevronDown, ChevronUp } from 'lucide-react'
+import type { LogEntry } from '@/lib/logs/types'
+import { energyLevels, attentionStates } from '@/lib/logs/constants'
+import { getHistoryDayPath, getLocalDateKey } from '@/lib/logs/days'
+import { ATTENTION_COLORS, formatEnergy } from '@/lib/insights/colors'
+import { analyzeKeywords, sortKeywords, type AttentionMix, type KeywordSort } from '@/lib/insights/keywords'
+import { SIGNIFICANCE_LABELS } from '@/lib/insights/stats'
+import { MIN_SAMPLE_SIZE } from '@/lib/insights/patterns'
+
+interface KeywordImpactProps {
+  logs: LogEntry[]
+}
+
+const SORTS: [KeywordSort, string][] = [
+  ['energy', 'Energy'],
+  ['hyperfocus', 'Hyperfocus'],
+  ['mentions', 'Mentions']
+]
+
+const INITIAL_KEYWORDS = 15
+
+const formatEffect = (effect: number, digits: number, suffix = '') => {
+  const rounded = Number(effect.toFixed(digits))
+  if (rounded === 0) return `±0${suffix}`
+  return `${rounded > 0 ? '+' : '−'}${Math.abs(rounded).toFixed(digits)}${suffix}`
+}
+
+function AttentionBar({ mix }: { mix: AttentionMix }) {
+  return (
+    <div className="flex h-2 w-16 shrink-0 rounded-sm overflow-hidden bg-gray-100">
+      {attentionStates.map(state => (
+        <div
+          key={state.value}
+          style={{ width: `${(mix.shares[state.value] ?? 0) * 100}%`, backgroundColor: ATTENTION_COLORS[state.value] }}
+        />
+      ))}
+    </div>
+  )
+}
+
+// Bold every mention of the word, so it's easy to see what the note said around it
+const highlight = (note: string, word: string) => {
+  const pattern = new RegExp(`(${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi')
+  return note.split(pattern).map((part, index) =>
+    index % 2 === 1 ? <strong key={index} className="font-semibold text-gray-800">{part}</strong> : part
+  )
+}
+
+// Words from "What were you just doing?" and how the entries that mention them compare
+export function KeywordImpact({ logs }: KeywordImpactProps) {
+  const [sort, setSort] = useState<KeywordSort>('energy')
+  const [expandedWord, setExpandedWord] = useState<string | null>(null)
+  const [showAll, setShowAll] = useState(false)
+
+  const analysis = useMemo(() => analyzeKeywords(logs), [logs])
+  const keywords = useMemo(() => analysis ? sortKeywords(analysis.keywords, sort) : [], [analysis, sort])
+  const visibleKeywords = showAll ? keywords : keywords.slice(0, INITIAL_KEYWORDS)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-800">What you were doing</h2>
+        <div className="flex rounded-lg bg-gray-100 p-0.5 text-xs">
+          {SORTS.map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setSort(value)}
+              className={`px-2 py-1 rounded-md transition-colors ${
+                sort === value ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!analysis || keywords.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">
+          Words that come up in at least {MIN_SAMPLE_SIZE} notes will show here.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 text-xs text-gray-500 px-2">
+            <span className="flex-1">All entries ({analysis.baseline.entries})</span>
+            <span className="tabular-nums">{formatEnergy(analysis.baseline.averageEnergy)}</span>
+            <AttentionBar mix={analysis.baseline.attention} />
+            <span className="w-4" />
+          </div>
+
+          <div className="space-y-1">
+            {visibleKeywords.map(keyword => {
+              const isExpanded = expandedWord === keyword.word
+              return (
+                <div key={keyword.word} className="rounded bg-gray-50">
+                  <button
+                    onClick={() => setExpandedWord(isExpanded ? null : keyword.word)}
+                    className="w-full flex items-center gap-2 text-xs text-gray-700 hover:bg-gray-100 rounded px-2 py-1.5 transition-colors text-left"
+                    title={SIGNIFICANCE_LABELS[keyword.hint]}
+                  >
+                    <span className="flex-1 min-w-0 truncate">
+                      <span className="font-medium">{keyword.word}</span>
+                      <span className="text-gray-400"> ({keyword.logs.length})</span>
+                    </span>
+                    <span className="tabular-nums">{formatEnergy(keyword.averageEnergy)}</span>
+                    <span
+                      className={`w-14 text-right tabular-nums ${
+                        sort !== 'hyperfocus' && (keyword.hint === 'likely' || keyword.hint === 'possible')
+                          ? keyword.energyEffect > 0 ? 'text-green-700' : 'text-red-600'
+                          : 'text-gray-400'
+                      }`}
+                    >
+                      {sort === 'hyperfocus' ? formatEffect(keyword.hyperfocusEffect, 0, ' pts') : formatEffect(keyword.energyEffect, 1)}
+                    </span>
+                    <AttentionBar mix={keyword.attention} />
+                    {isExpanded ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+                  </button>
+
+                  {isExpanded && (
+                    <div className="px-2 pb-2 space-y-1">
+                      <p className="text-[10px] text-gray-400">{SIGNIFICANCE_LABELS[keyword.hint]}</p>
+                      {keyword.logs.map(log => (
+                        <Link
+                          key={log.id}
+                          href={getHistoryDayPath(getLocalDateKey(log.timestamp))}
+                          className="flex items-center gap-2 text-xs text-gray-600 bg-white hover:bg-indigo-50 rounded px-2 py-1 transition-colors"
+                        >
+                          <span className="shrink-0 text-gray-400">
+                            {new Date(log.timestamp).toLocaleString('en-US', {
+                              month: 'short',
+                              day: 'numeric',
+                              hour: 'numeric',
+                              minute: '2-digit'
+                            })}
+                          </span>
+                          <span className="shrink-0">{energyLevels.find(l => l.value === log.energy)?.icon}</span>
+                          <span className="shrink-0">{attentionStates.find(a => a.value === log.attention)?.emoji}</span>
+                          <span className="truncate">{log.note && highlight(log.note, keyword.word)}</span>
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          {keywords.length > INITIAL_KEYWORDS && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="text-xs text-indigo-600 hover:text-indigo-700 px-2"
+            >
+              {showAll ? 'Show fewer' : `Show all ${keywords.length} words`}
+            </button>
+          )}
+
+          <p className="text-xs text-gray-400">
+            Average energy of entries mentioning each word, and how far it is from all entries (or the change in
+            hyperfocused share). Energy differences are only colored when they&apos;re unlikely to be chance. Tap a word
+            to see its entries.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
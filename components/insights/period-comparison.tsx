@@ -0,0 +1,192 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { LogEntry } from '@/lib/logs/types'
+import { attentionStates } from '@/lib/logs/constants'
+import { getLocalDateKey, parseLocalDateKey } from '@/lib/logs/days'
+import { formatEnergy } from '@/lib/insights/colors'
+import { COMPARISON_PRESETS, comparePeriods, type DateRange, type PeriodSummary } from '@/lib/insights/compare'
+import { SIGNIFICANCE_LABELS, type SignificanceHint } from '@/lib/insights/stats'
+
+interface PeriodComparisonProps {
+  logs: LogEntry[]
+}
+
+const inputClassName = 'text-xs border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+
+const HINT_CLASSES: Record<SignificanceHint, string> = {
+  likely: 'text-green-700',
+  possible: 'text-amber-700',
+  chance: 'text-gray-400',
+  'too-few': 'text-gray-400'
+}
+
+const formatRange = (range: DateRange) => {
+  const format = (day: string) => parseLocalDateKey(day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+  return range.from === range.to ? format(range.from) : `${format(range.from)} – ${format(range.to)}`
+}
+
+const formatDelta = (delta: number | null, digits = 0, suffix = '') => {
+  if (delta === null) return '–'
+  const rounded = Number(delta.toFixed(digits))
+  if (rounded === 0) return `±0${suffix}`
+  return `${rounded > 0 ? '+' : '−'}${Math.abs(rounded).toFixed(digits)}${suffix}`
+}
+
+const getShare = (summary: PeriodSummary, attention: string) =>
+  summary.entries > 0 ? (summary.attention[attention] ?? 0) / summary.entries * 100 : null
+
+// Two date ranges side by side with the change from the first to the second
+export function PeriodComparison({ logs }: PeriodComparisonProps) {
+  const [ranges, setRanges] = useState<[DateRange, DateRange]>(() =>
+    COMPARISON_PRESETS[0].getRanges(getLocalDateKey(new Date()))
+  )
+  const comparison = useMemo(() => comparePeriods(logs, ranges[0], ranges[1]), [logs, ranges])
+  const { a, b } = comparison
+  const isValid = ranges.every(range => range.from <= range.to)
+
+  const setRange = (index: 0 | 1, field: keyof DateRange, value: string) => {
+    if (!value) return
+    setRanges(current => {
+      const next = [...current] as [DateRange, DateRange]
+      next[index] = { ...next[index], [field]: value }
+      return next
+    })
+  }
+
+  const rows: { label: string; a: string; b: string; delta: string; hint?: SignificanceHint }[] = [
+    {
+      label: 'Average energy',
+      a: a.averageEnergy === null ? '–' : formatEnergy(a.averageEnergy),
+      b: b.averageEnergy === null ? '–' : formatEnergy(b.averageEnergy),
+      delta: formatDelta(a.averageEnergy !== null && b.averageEnergy !== null ? b.averageEnergy - a.averageEnergy : null, 1),
+      hint: comparison.energy
+    },
+    {
+      label: 'Entries',
+      a: `${a.entries} (${(a.entries / a.days).toFixed(1)}/day)`,
+      b: `${b.entries} (${(b.entries / b.days).toFixed(1)}/day)`,
+      delta: formatDelta(b.entries / b.days - a.entries / a.days, 1, '/day')
+    },
+    {
+      label: 'Days logged',
+      a: `${a.daysLogged} of ${a.days}`,
+      b: `${b.daysLogged} of ${b.days}`,
+      delta: formatDelta(b.daysLogged - a.daysLogged)
+    },
+    {
+      label: 'Longest streak',
+      a: `${a.longestStreak} ${a.longestStreak === 1 ? 'day' : 'days'}`,
+      b: `${b.longestStreak} ${b.longestStreak === 1 ? 'day' : 'days'}`,
+      delta: formatDelta(b.longestStreak - a.longestStreak)
+    },
+    ...attentionStates.map((state, index) => {
+      const shareA = getShare(a, state.value)
+      const shareB = getShare(b, state.value)
+      return {
+        label: `${state.emoji} ${state.label}`,
+        a: shareA === null ? '–' : `${Math.round(shareA)}%`,
+        b: shareB === null ? '–' : `${Math.round(shareB)}%`,
+        delta: formatDelta(shareA !== null && shareB !== null ? shareB - shareA : null, 0, ' pts'),
+        // One test covers the whole attention mix, so the hint sits under its last row
+        hint: index === attentionStates.length - 1 ? comparison.attention : undefined
+      }
+    })
+  ]
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-800">Compare periods</h2>
+
+      <div className="flex flex-wrap gap-2">
+        {COMPARISON_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => setRanges(preset.getRanges(getLocalDateKey(new Date())))}
+            className="px-2 py-1 text-xs text-gray-600 bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {(['A', 'B'] as const).map((name, index) => (
+          <div key={name} className="flex items-center gap-1 text-xs text-gray-600">
+            <span className="font-medium w-4">{name}</span>
+            <input
+              type="date"
+              value={ranges[index].from}
+              onChange={(e) => setRange(index as 0 | 1, 'from', e.target.value)}
+              className={inputClassName}
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={ranges[index].to}
+              onChange={(e) => setRange(index as 0 | 1, 'to', e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+      </div>
+
+      {!isValid ? (
+        <p className="text-xs text-red-600">Each range needs to start on or before the day it ends.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-[auto_1fr_1fr_auto] gap-x-3 gap-y-1 text-xs">
+            <div />
+            <div className="text-gray-500 font-medium">A · {formatRange(a.range)}</div>
+            <div className="text-gray-500 font-medium">B · {formatRange(b.range)}</div>
+            <div className="text-gray-500 font-medium text-right">Change</div>
+            {rows.map(row => (
+              <div key={row.label} className="contents">
+                <div className="text-gray-600 whitespace-nowrap">{row.label}</div>
+                <div className="text-gray-800 tabular-nums">{row.a}</div>
+                <div className="text-gray-800 tabular-nums">{row.b}</div>
+                <div className="text-gray-800 tabular-nums text-right">{row.delta}</div>
+                {row.hint && (
+                  <div className={`col-span-4 -mt-0.5 mb-1 text-[10px] ${HINT_CLASSES[row.hint]}`}>
+                    {SIGNIFICANCE_LABELS[row.hint]}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {[a, b].map((summary, index) => (
+              <div key={index} className="space-y-1">
+                <p className="text-xs font-medium text-gray-500">Common note words in {index === 0 ? 'A' : 'B'}</p>
+                {summary.topWords.length === 0 ? (
+                  <p className="text-xs text-gray-400">No notes</p>
+                ) : (
+                  <div className="flex flex-wrap gap-1">
+                    {summary.topWords.map(({ word, count }) => {
+                      const other = index === 0 ? b : a
+                      const isShared = other.topWords.some(otherWord => otherWord.word === word)
+                      return (
+                        <span
+                          key={word}
+                          className={`px-1.5 py-0.5 rounded text-xs ${isShared ? 'bg-gray-100 text-gray-600' : 'bg-indigo-50 text-indigo-700'}`}
+                        >
+                          {word} <span className="text-gray-400">{count}</span>
+                        </span>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-400">
+            Hints come from a t-test on energy and a chi-square test on the attention mix. Highlighted words are common in
+            one period but not the other. Entries are compared per day, since the ranges can differ in length.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
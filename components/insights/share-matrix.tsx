@@ -0,0 +1,56 @@
+'use client'
+
+import { MIN_SAMPLE_SIZE } from '@/lib/insights/patterns'
+import type { MatrixRow } from '@/lib/insights/correlation'
+
+interface ShareMatrixProps {
+  rows: MatrixRow[]
+  columnKeys: string[]
+  renderRowLabel: (key: string) => React.ReactNode
+  renderColumnLabel: (key: string) => React.ReactNode
+  // Base color for the cells; shading follows each cell's share of its row
+  color: string
+}
+
+const toPercent = (count: number, total: number) => `${Math.round((count / total) * 100)}%`
+
+// Table of row shares with each row's sample size beside it. Rows with too few entries are
+// faded, and rows with none show dashes instead of 0%.
+export function ShareMatrix({ rows, columnKeys, renderRowLabel, renderColumnLabel, color }: ShareMatrixProps) {
+  return (
+    <div
+      className="grid gap-1 text-xs"
+      style={{ gridTemplateColumns: `auto repeat(${columnKeys.length}, minmax(0, 1fr)) auto` }}
+    >
+      <div />
+      {columnKeys.map(key => (
+        <div key={key} className="text-center text-gray-500 truncate">{renderColumnLabel(key)}</div>
+      ))}
+      <div className="text-right text-gray-400">n</div>
+
+      {rows.map(row => (
+        <div key={row.key} className={`contents ${row.total < MIN_SAMPLE_SIZE ? '[&>*]:opacity-40' : ''}`}>
+          <div className="pr-1 flex items-center text-gray-600 whitespace-nowrap">{renderRowLabel(row.key)}</div>
+          {columnKeys.map(key => {
+            const count = row.counts[key] ?? 0
+            return (
+              <div
+                key={key}
+                title={row.total > 0 ? `${count} of ${row.total}` : 'No entries'}
+                className="relative rounded py-2 text-center tabular-nums bg-gray-50 overflow-hidden"
+              >
+                {row.total > 0 && (
+                  <div className="absolute inset-0" style={{ backgroundColor: color, opacity: (count / row.total) * 0.8 }} />
+                )}
+                <span className={`relative ${row.total > 0 && count / row.total > 0.5 ? 'text-white' : 'text-gray-700'}`}>
+                  {row.total > 0 ? toPercent(count, row.total) : '–'}
+                </span>
+              </div>
+            )
+          })}
+          <div className="pl-1 flex items-center justify-end text-gray-400 tabular-nums">{row.total}</div>
+        </div>
+      ))}
+    </div>
+  )
+}
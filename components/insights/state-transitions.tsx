@@ -0,0 +1,61 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { LogEntry } from '@/lib/logs/types'
+import { MIN_SAMPLE_SIZE } from '@/lib/insights/patterns'
+import { getTransitionMatrix, type TransitionDimension } from '@/lib/insights/correlation'
+import { formatEnergyLevel, formatAttentionState } from '@/lib/insights/labels'
+import { ShareMatrix } from './share-matrix'
+
+interface StateTransitionsProps {
+  logs: LogEntry[]
+}
+
+// Where the next entry of the day tends to go from each state
+export function StateTransitions({ logs }: StateTransitionsProps) {
+  const [dimension, setDimension] = useState<TransitionDimension>('attention')
+  const matrix = useMemo(() => getTransitionMatrix(logs, dimension), [logs, dimension])
+  const formatLabel = dimension === 'attention' ? formatAttentionState : formatEnergyLevel
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-800">What comes next</h2>
+        <div className="flex rounded-lg bg-gray-100 p-0.5 text-xs">
+          {([['attention', 'Attention'], ['energy', 'Energy']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setDimension(value)}
+              className={`px-2 py-1 rounded-md transition-colors ${
+                dimension === value ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {matrix.total === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">
+          Log more than once a day to see how one entry leads into the next.
+        </p>
+      ) : (
+        <>
+          <ShareMatrix
+            rows={matrix.rows}
+            columnKeys={matrix.keys}
+            renderRowLabel={formatLabel}
+            renderColumnLabel={formatLabel}
+            color="#0d9488"
+          />
+          <p className="text-xs text-gray-400">
+            From the state on the left, how often the next entry the same day landed in each state across the top.
+            Based on {matrix.total} {matrix.total === 1 ? 'pair' : 'pairs'} of entries; n counts pairs per row, and rows
+            with fewer than {MIN_SAMPLE_SIZE} are faded.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
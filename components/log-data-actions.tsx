@@ -0,0 +1,121 @@
+'use client'
+
+import { useRef } from 'react'
+import { Download, Upload, FileInput, Archive, ArchiveRestore, NotebookText, CalendarDays } from 'lucide-react'
+
+interface LogDataActionsProps {
+  canExport: boolean
+  isBackingUp: boolean
+  isExportingNotes: boolean
+  onExportCsv: () => void
+  onExportIcs: () => void
+  onImportCsv: (file: File) => void
+  onImportFromApp: (file: File) => void
+  onExportDailyNotes: (incremental: boolean) => void
+  onBackup: () => void
+  onRestore: (file: File) => void
+}
+
+const buttonClassName = 'flex items-center gap-1 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent rounded transition-colors'
+
+// Getting entries in and out of the tracker
+export function LogDataActions({
+  canExport,
+  isBackingUp,
+  isExportingNotes,
+  onExportCsv,
+  onExportIcs,
+  onImportCsv,
+  onImportFromApp,
+  onExportDailyNotes,
+  onBackup,
+  onRestore
+}: LogDataActionsProps) {
+  const csvInputRef = useRef<HTMLInputElement>(null)
+  const appInputRef = useRef<HTMLInputElement>(null)
+  const backupInputRef = useRef<HTMLInputElement>(null)
+
+  // Reset the input so choosing the same file again still fires a change
+  const handleFileChange = (onFile: (file: File) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) onFile(file)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <button onClick={onExportCsv} disabled={!canExport} className={buttonClassName}>
+        <Download className="w-3 h-3" />
+        Export CSV
+      </button>
+      <button
+        onClick={onExportIcs}
+        disabled={!canExport}
+        className={buttonClassName}
+        title="For Google Calendar, Apple Calendar or Outlook"
+      >
+        <CalendarDays className="w-3 h-3" />
+        Export calendar
+      </button>
+      <button onClick={() => csvInputRef.current?.click()} className={buttonClassName}>
+        <Upload className="w-3 h-3" />
+        Import CSV
+      </button>
+      <button
+        onClick={() => appInputRef.current?.click()}
+        className={buttonClassName}
+        title="Daylio, Bearable or a spreadsheet"
+      >
+        <FileInput className="w-3 h-3" />
+        Import from other apps
+      </button>
+      <button
+        onClick={() => onExportDailyNotes(false)}
+        disabled={!canExport || isExportingNotes}
+        className={buttonClassName}
+        title="One Markdown file per day, for Obsidian and other journals"
+      >
+        <NotebookText className="w-3 h-3" />
+        Daily notes
+      </button>
+      <button
+        onClick={() => onExportDailyNotes(true)}
+        disabled={!canExport || isExportingNotes}
+        className={buttonClassName}
+        title="Only days that are new or changed since your last daily notes export"
+      >
+        <NotebookText className="w-3 h-3" />
+        New daily notes
+      </button>
+      <button onClick={onBackup} disabled={!canExport || isBackingUp} className={buttonClassName}>
+        <Archive className="w-3 h-3" />
+        {isBackingUp ? 'Backing up...' : 'Back up'}
+      </button>
+      <button onClick={() => backupInputRef.current?.click()} className={buttonClassName}>
+        <ArchiveRestore className="w-3 h-3" />
+        Restore
+      </button>
+      <input
+        ref={csvInputRef}
+        type="file"
+        accept=".csv,text/csv"
+        onChange={handleFileChange(onImportCsv)}
+        className="hidden"
+      />
+      <input
+        ref={appInputRef}
+        type="file"
+        accept=".csv,text/csv"
+        onChange={handleFileChange(onImportFromApp)}
+        className="hidden"
+      />
+      <input
+        ref={backupInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        onChange={handleFileChange(onRestore)}
+        className="hidden"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ImagePlus, Trash2 } from 'lucide-react'
+import { MAX_NOTE_LENGTH, energyLevels, attentionStates } from '@/lib/logs/constants'
+import type { LogEntry } from '@/lib/logs/types'
+import { processImage, type ProcessedImage } from '@/lib/images/pipeline'
+import { ACCEPTED_IMAGE_TYPES, validateImageFile } from '@/lib/images/validation'
+import { LogImage } from './log-image'
+
+// What happens to the entry's screenshot when the edit is saved
+export type ImageEdit =
+  | { kind: 'keep' }
+  | { kind: 'remove' }
+  | { kind: 'replace'; image: ProcessedImage }
+
+export interface LogEntryEdit {
+  energy: number
+  attention: string
+  note: string | null
+  image: ImageEdit
+}
+
+interface LogEntryEditorProps {
+  log: LogEntry
+  isSaving: boolean
+  onSave: (edit: LogEntryEdit) => void
+  onCancel: () => void
+}
+
+// Edit mode for a History card, with the same rules as the create form
+export function LogEntryEditor({ log, isSaving, onSave, onCancel }: LogEntryEditorProps) {
+  const [energy, setEnergy] = useState(log.energy)
+  const [attention, setAttention] = useState(log.attention)
+  const [note, setNote] = useState(log.note ?? '')
+  const [imageEdit, setImageEdit] = useState<ImageEdit>({ kind: 'keep' })
+  const [replacementPreview, setReplacementPreview] = useState<string | null>(null)
+  const [isProcessingImage, setIsProcessingImage] = useState(false)
+  const [imageError, setImageError] = useState<string | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (replacementPreview) URL.revokeObjectURL(replacementPreview)
+    }
+  }, [replacementPreview])
+
+  const handleNoteChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.value.length <= MAX_NOTE_LENGTH) {
+      setNote(e.target.value)
+    }
+  }
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const validationError = validateImageFile(file)
+    setImageError(validationError)
+    if (validationError) return
+
+    setIsProcessingImage(true)
+    try {
+      const processed = await processImage(file)
+      setImageEdit({ kind: 'replace', image: processed })
+      setReplacementPreview(URL.createObjectURL(processed.thumbnail))
+    } catch (error) {
+      console.error('Error processing image:', error)
+      setImageError('Could not read that image. Please try a different file.')
+    } finally {
+      setIsProcessingImage(false)
+    }
+  }
+
+  const handleRemoveImage = () => {
+    setImageEdit({ kind: 'remove' })
+    setReplacementPreview(null)
+  }
+
+  const hasImage = imageEdit.kind === 'replace' || (imageEdit.kind === 'keep' && !!log.imageRef)
+  const inputId = `edit-image-${log.id}`
+
+  return (
+    <div className="space-y-3">
+      {/* Energy */}
+      <div className="grid grid-cols-5 gap-1">
+        {energyLevels.map(level => (
+          <button
+            key={level.value}
+            onClick={() => setEnergy(level.value)}
+            className={`p-1 rounded-lg border-2 transition-all ${energy === level.value
+              ? 'border-indigo-500 bg-indigo-50'
+              : 'border-gray-200 hover:border-gray-300'
+              }`}
+          >
+            <div className="text-base">{level.icon}</div>
+            <div className="text-[9px] font-medium leading-none">{level.label}</div>
+          </button>
+        ))}
+      </div>
+
+      {/* Attention */}
+      <div className="grid grid-cols-3 gap-1">
+        {attentionStates.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setAttention(option.value)}
+            className={`p-1 rounded-lg border-2 transition-all ${attention === option.value
+              ? 'border-indigo-500 bg-indigo-50'
+              : 'border-gray-200 hover:border-gray-300'
+              }`}
+          >
+            <div className="text-base">{option.emoji}</div>
+            <div className="text-[10px] font-medium">{option.label}</div>
+          </button>
+        ))}
+      </div>
+
+      {/* Note */}
+      <div className="space-y-1">
+        <input
+          type="text"
+          value={note}
+          onChange={handleNoteChange}
+          placeholder="What were you just doing?"
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white text-gray-900"
+        />
+        <div className="flex justify-end">
+          <span className="text-[10px] text-gray-400">{note.length}/{MAX_NOTE_LENGTH}</span>
+        </div>
+      </div>
+
+      {/* Screenshot */}
+      <div className="flex items-center gap-3">
+        <div className="flex-shrink-0 w-16 h-16 rounded border border-gray-200 overflow-hidden bg-gray-50">
+          {imageEdit.kind === 'replace' && replacementPreview ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={replacementPreview} alt="New screenshot" className="w-full h-full object-cover" />
+          ) : imageEdit.kind === 'keep' && log.imageRef ? (
+            <LogImage imageRef={log.imageRef} alt="Log screenshot" className="w-full h-full object-cover" />
+          ) : null}
+        </div>
+        <div className="flex flex-col gap-1">
+          <input
+            type="file"
+            accept={ACCEPTED_IMAGE_TYPES.join(',')}
+            onChange={handleImageChange}
+            className="hidden"
+            id={inputId}
+          />
+          <label
+            htmlFor={inputId}
+            className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-800 cursor-pointer"
+          >
+            <ImagePlus className="w-3 h-3" />
+            {isProcessingImage ? 'Processing...' : hasImage ? 'Replace screenshot' : 'Add screenshot'}
+          </label>
+          {hasImage && (
+            <button
+              onClick={handleRemoveImage}
+              className="flex items-center gap-1 text-xs text-gray-600 hover:text-red-600"
+            >
+              <Trash2 className="w-3 h-3" />
+              Remove screenshot
+            </button>
+          )}
+          {imageError && <span className="text-[10px] text-red-500">{imageError}</span>}
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          disabled={isSaving}
+          className="px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave({ energy, attention, note: note || null, image: imageEdit })}
+          disabled={isSaving || isProcessingImage}
+          className={`px-3 py-1.5 text-xs font-medium rounded-lg text-white transition-colors ${
+            isSaving || isProcessingImage ? 'bg-indigo-400' : 'bg-indigo-600 hover:bg-indigo-700'
+          }`}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { ImageOff } from 'lucide-react'
+import { resolveImageUrl } from '@/lib/images/resolve'
+import type { ImageVariant } from '@/lib/images/refs'
+
+interface LogImageProps {
+  imageRef: string
+  alt: string
+  className?: string
+  variant?: ImageVariant
+  // History tiles wait until they scroll into view; the expanded view loads immediately
+  lazy?: boolean
+}
+
+export function LogImage({ imageRef, alt, className, variant = 'thumbnail', lazy = true }: LogImageProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [isVisible, setIsVisible] = useState(!lazy)
+  const [url, setUrl] = useState<string | null>(null)
+  const [hasError, setHasError] = useState(false)
+
+  useEffect(() => {
+    if (isVisible || !containerRef.current) return
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          setIsVisible(true)
+          observer.disconnect()
+        }
+      },
+      { rootMargin: '200px' }
+    )
+    observer.observe(containerRef.current)
+
+    return () => observer.disconnect()
+  }, [isVisible])
+
+  useEffect(() => {
+    if (!isVisible) return
+
+    let isCancelled = false
+    setHasError(false)
+    resolveImageUrl(imageRef, variant)
+      .then(resolved => {
+        if (!isCancelled) setUrl(resolved)
+      })
+      .catch(error => {
+        console.error('Error loading screenshot:', error)
+        if (!isCancelled) setHasError(true)
+      })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [imageRef, variant, isVisible])
+
+  return (
+    <div ref={containerRef} className="w-full h-full flex items-center justify-center">
+      {hasError ? (
+        <ImageOff className="w-4 h-4 text-gray-300" />
+      ) : url ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={url} alt={alt} className={className} />
+      ) : (
+        <div className="w-full h-full bg-gray-100 animate-pulse" />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+import { Upload } from 'lucide-react'
+
+interface LogMigrationPromptProps {
+  count: number
+  withImagesCount: number
+  isImporting: boolean
+  onImport: () => void
+  onDismiss: () => void
+}
+
+// Offers to move a guest's localStorage logs into the account they just signed into
+export function LogMigrationPrompt({ count, withImagesCount, isImporting, onImport, onDismiss }: LogMigrationPromptProps) {
+  return (
+    <div className="w-full bg-indigo-50 border border-indigo-100 rounded-2xl p-4 space-y-3">
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-gray-800">
+          {count} {count === 1 ? 'log' : 'logs'} saved on this device
+        </p>
+        <p className="text-xs text-gray-500">
+          Import {count === 1 ? 'it' : 'them'} into your account
+          {withImagesCount > 0 && ` (including ${withImagesCount} ${withImagesCount === 1 ? 'screenshot' : 'screenshots'})`}
+          {' '}so {count === 1 ? 'it is' : 'they are'} saved everywhere you log in.
+        </p>
+      </div>
+      <div className="flex items-center justify-end gap-3">
+        <button
+          onClick={onDismiss}
+          disabled={isImporting}
+          className="text-xs sm:text-sm text-gray-500 hover:text-gray-700 transition-colors font-medium px-2 py-2"
+        >
+          Not now
+        </button>
+        <button
+          onClick={onImport}
+          disabled={isImporting}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-xs sm:text-sm transition-colors ${
+            isImporting
+              ? 'bg-indigo-400 text-white'
+              : 'bg-indigo-600 text-white hover:bg-indigo-700'
+          }`}
+        >
+          <Upload className="w-4 h-4" />
+          {isImporting ? 'Importing...' : `Import ${count}`}
+        </button>
+      </div>
+    </div>
+  )
+}
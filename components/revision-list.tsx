@@ -0,0 +1,95 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Undo2 } from 'lucide-react'
+import {
+  REVISION_FIELD_LABELS,
+  formatRevisionValue,
+  type LogRevision,
+  type RevisionField
+} from '@/lib/logs/revisions'
+import type { LogEntry } from '@/lib/logs/types'
+
+interface RevisionListProps {
+  log: LogEntry
+  loadRevisions: (logId: string) => Promise<LogRevision[]>
+  onRevert: (revisions: LogRevision[], revisionId: string) => void
+  hasUnsyncedChanges?: boolean
+}
+
+// Audit trail for one History card: what changed, when, and a way back
+export function RevisionList({ log, loadRevisions, onRevert, hasUnsyncedChanges = false }: RevisionListProps) {
+  const [revisions, setRevisions] = useState<LogRevision[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reload whenever the entry changes, including after a revert
+  useEffect(() => {
+    let isCancelled = false
+    setError(null)
+    loadRevisions(log.id)
+      .then(loaded => {
+        if (!isCancelled) {
+          setRevisions([...loaded].sort((a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime()))
+        }
+      })
+      .catch(loadError => {
+        console.error('Error loading revisions:', loadError)
+        if (!isCancelled) setError('Could not load the change history. Check your connection and try again.')
+      })
+    return () => {
+      isCancelled = true
+    }
+  }, [log, loadRevisions])
+
+  if (error) {
+    return <p className="text-xs text-red-500">{error}</p>
+  }
+  if (!revisions) {
+    return <p className="text-xs text-gray-400">Loading changes...</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {hasUnsyncedChanges && (
+        <p className="text-[10px] text-gray-400">Changes made offline appear here once they sync.</p>
+      )}
+      {revisions.length === 0 ? (
+        <p className="text-xs text-gray-500">No changes since this entry was logged.</p>
+      ) : (
+        revisions.map(revision => (
+          <div key={revision.id} className="flex items-start gap-2 text-xs">
+            <div className="flex-1 space-y-0.5">
+              <div className="text-gray-500">
+                {new Date(revision.changedAt).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit'
+                })}
+              </div>
+              {(Object.keys(revision.changes) as RevisionField[]).map(field => (
+                <div key={field} className="text-gray-700">
+                  <span className="font-medium">{REVISION_FIELD_LABELS[field]}:</span>{' '}
+                  <span className="line-through text-gray-400">
+                    {formatRevisionValue(field, revision.changes[field]?.before)}
+                  </span>
+                  {' → '}
+                  <span>{formatRevisionValue(field, revision.changes[field]?.after)}</span>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => onRevert(revisions, revision.id)}
+              className="flex items-center gap-1 px-2 py-1 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+              title="Restore the entry to how it was before this change"
+            >
+              <Undo2 className="w-3 h-3" />
+              Revert
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
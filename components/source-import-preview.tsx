@@ -0,0 +1,185 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Upload } from 'lucide-react'
+import { energyLevels, attentionStates } from '@/lib/logs/constants'
+import { findNewLogs } from '@/lib/logs/dedupe'
+import type { LogEntry } from '@/lib/logs/types'
+import { IMPORT_SOURCE_LABELS, type SourceExtract, type SourceTable } from '@/lib/imports/types'
+import { detectSource, getSourceValues, guessScaleMapping, mapRecordsToLogs, type ScaleMapping } from '@/lib/imports/mapping'
+import { extractDaylio } from '@/lib/imports/daylio'
+import { extractBearable } from '@/lib/imports/bearable'
+import { extractSpreadsheet, guessSpreadsheetColumns, type SpreadsheetColumns } from '@/lib/imports/spreadsheet'
+
+interface SourceImportPreviewProps {
+  fileName: string
+  table: SourceTable
+  existingLogs: LogEntry[]
+  isImporting: boolean
+  onImport: (logs: LogEntry[]) => void
+  onCancel: () => void
+}
+
+const PREVIEW_ROWS = 5
+const ERROR_ROWS = 10
+
+const selectClassName = 'text-xs border border-gray-300 rounded px-2 py-1 bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent'
+
+// Mapping screen for another app's export: pick how its scale translates to energy, then import
+export function SourceImportPreview({ fileName, table, existingLogs, isImporting, onImport, onCancel }: SourceImportPreviewProps) {
+  const source = useMemo(() => detectSource(table), [table])
+  const [columns, setColumns] = useState<SpreadsheetColumns>(() => guessSpreadsheetColumns(table))
+  const [attention, setAttention] = useState('focused')
+
+  const extract: SourceExtract = useMemo(() => {
+    if (source === 'daylio') return extractDaylio(table)
+    if (source === 'bearable') return extractBearable(table)
+    return extractSpreadsheet(table, columns)
+  }, [source, table, columns])
+
+  const values = useMemo(() => getSourceValues(extract.records), [extract])
+  const guessedMapping = useMemo(() => guessScaleMapping(values.map(({ value }) => value)), [values])
+  // Only the user's changes are kept, so picking another value column starts from a fresh guess
+  const [overrides, setOverrides] = useState<ScaleMapping>({})
+  const mapping = useMemo(() => ({ ...guessedMapping, ...overrides }), [guessedMapping, overrides])
+
+  const mapped = useMemo(() => mapRecordsToLogs(extract.records, mapping, attention), [extract, mapping, attention])
+  const newLogs = useMemo(() => findNewLogs(existingLogs, mapped.logs), [existingLogs, mapped])
+  const errors = [...extract.errors, ...mapped.errors].sort((a, b) => a.row - b.row)
+
+  const handleColumnChange = (field: keyof SpreadsheetColumns, value: string) => {
+    setColumns(current => ({ ...current, [field]: value === '' ? null : Number(value) }))
+    setOverrides({})
+  }
+
+  return (
+    <div className="w-full bg-indigo-50 border border-indigo-100 rounded-2xl p-4 space-y-4">
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-gray-800 truncate">
+          Import from {IMPORT_SOURCE_LABELS[source]} • {fileName}
+        </p>
+        <p className="text-xs text-gray-500">
+          {newLogs.length} new {newLogs.length === 1 ? 'entry' : 'entries'}
+          {mapped.logs.length > newLogs.length && ` • ${mapped.logs.length - newLogs.length} already in your history`}
+          {errors.length > 0 && ` • ${errors.length} ${errors.length === 1 ? 'row' : 'rows'} skipped`}
+          {mapped.truncatedNotes > 0 && ` • ${mapped.truncatedNotes} long ${mapped.truncatedNotes === 1 ? 'note' : 'notes'} shortened`}
+        </p>
+      </div>
+
+      {/* Spreadsheets have no fixed layout, so their columns are chosen here */}
+      {source === 'spreadsheet' && (
+        <div className="grid grid-cols-2 gap-2">
+          {([
+            ['date', 'Date'],
+            ['time', 'Time'],
+            ['value', 'Value'],
+            ['note', 'Note']
+          ] as const).map(([field, label]) => (
+            <label key={field} className="flex items-center justify-between gap-2 text-xs text-gray-600">
+              {label}
+              <select
+                value={columns[field] ?? ''}
+                onChange={(e) => handleColumnChange(field, e.target.value)}
+                className={selectClassName}
+              >
+                {(field === 'time' || field === 'note') && <option value="">None</option>}
+                {table.columns.map((column, index) => (
+                  <option key={index} value={index}>{column || `Column ${index + 1}`}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {values.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-gray-700">How each value maps to energy</p>
+          {values.map(({ value, count }) => (
+            <div key={value} className="flex items-center justify-between gap-2 text-xs text-gray-700 bg-white rounded px-2 py-1">
+              <span className="truncate">
+                {value} <span className="text-gray-400">({count})</span>
+              </span>
+              <select
+                value={mapping[value]}
+                onChange={(e) => setOverrides(current => ({ ...current, [value]: Number(e.target.value) }))}
+                className={selectClassName}
+              >
+                {energyLevels.map(level => (
+                  <option key={level.value} value={level.value}>{level.icon} {level.label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Other apps don't track attention, so every entry gets the same state */}
+      <label className="flex items-center justify-between gap-2 text-xs text-gray-700">
+        Attention for imported entries
+        <select value={attention} onChange={(e) => setAttention(e.target.value)} className={selectClassName}>
+          {attentionStates.map(state => (
+            <option key={state.value} value={state.value}>{state.emoji} {state.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {newLogs.length > 0 && (
+        <div className="space-y-1">
+          {newLogs.slice(0, PREVIEW_ROWS).map(log => (
+            <div key={log.id} className="flex items-center gap-2 text-xs text-gray-700 bg-white rounded px-2 py-1">
+              <span className="text-gray-500">
+                {new Date(log.timestamp).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit'
+                })}
+              </span>
+              <span>{energyLevels.find(l => l.value === log.energy)?.icon}</span>
+              <span>{attentionStates.find(a => a.value === log.attention)?.emoji}</span>
+              {log.note && <span className="truncate italic text-gray-500">{log.note}</span>}
+            </div>
+          ))}
+          {newLogs.length > PREVIEW_ROWS && (
+            <p className="text-xs text-gray-500 px-2">and {newLogs.length - PREVIEW_ROWS} more</p>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="space-y-1">
+          {errors.slice(0, ERROR_ROWS).map(error => (
+            <p key={error.row} className="text-xs text-red-600">Row {error.row}: {error.message}</p>
+          ))}
+          {errors.length > ERROR_ROWS && (
+            <p className="text-xs text-red-600">and {errors.length - ERROR_ROWS} more rows</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        <button
+          onClick={onCancel}
+          disabled={isImporting}
+          className="text-xs sm:text-sm text-gray-500 hover:text-gray-700 transition-colors font-medium px-2 py-2"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onImport(newLogs)}
+          disabled={isImporting || newLogs.length === 0}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-xs sm:text-sm transition-colors ${
+            isImporting || newLogs.length === 0
+              ? 'bg-indigo-400 text-white'
+              : 'bg-indigo-600 text-white hover:bg-indigo-700'
+          }`}
+        >
+          <Upload className="w-4 h-4" />
+          {isImporting ? 'Importing...' : `Import ${newLogs.length}`}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+'use client'
+
+import { RotateCcw, Trash2 } from 'lucide-react'
+import { energyLevels, attentionStates } from '@/lib/logs/constants'
+import { TRASH_RETENTION_DAYS, getDaysUntilPurge } from '@/lib/logs/trash'
+import type { LogEntry } from '@/lib/logs/types'
+
+interface TrashListProps {
+  logs: LogEntry[]
+  onRestore: (logId: string) => void
+  onPurge: (logId: string) => void
+}
+
+export function TrashList({ logs, onRestore, onPurge }: TrashListProps) {
+  if (logs.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">Trash is empty</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Deleted entries don&apos;t count toward streaks and are removed for good after {TRASH_RETENTION_DAYS} days.
+      </p>
+      {logs.map(log => {
+        const logEnergy = energyLevels.find(l => l.value === log.energy)
+        const logAttention = attentionStates.find(a => a.value === log.attention)
+        const daysLeft = getDaysUntilPurge(log)
+
+        return (
+          <div key={log.id} className="bg-white rounded-lg border border-gray-100 p-3 flex items-center gap-3 opacity-75">
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="text-xs text-gray-500">
+                {new Date(log.timestamp).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit'
+                })}
+                {' '}• {daysLeft} {daysLeft === 1 ? 'day' : 'days'} left
+              </div>
+              <div className="flex items-center gap-2 text-sm text-gray-700">
+                <span>{logEnergy?.icon}</span>
+                <span>{logEnergy?.label}</span>
+                <span>{logAttention?.emoji}</span>
+                <span>{logAttention?.label}</span>
+              </div>
+              {log.note && <p className="text-xs text-gray-500 italic truncate">{log.note}</p>}
+            </div>
+            <button
+              onClick={() => onRestore(log.id)}
+              className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-colors"
+              title="Restore"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onPurge(log.id)}
+              className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+              title="Delete forever"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
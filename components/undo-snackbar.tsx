@@ -0,0 +1,39 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+interface UndoSnackbarProps {
+  message: string
+  onUndo: () => void
+  onDismiss: () => void
+  duration?: number
+}
+
+// Short-lived bar offering to reverse the last destructive action.
+// Give it a fresh key per action so the timer restarts.
+export function UndoSnackbar({ message, onUndo, onDismiss, duration = 6000 }: UndoSnackbarProps) {
+  const onDismissRef = useRef(onDismiss)
+
+  useEffect(() => {
+    onDismissRef.current = onDismiss
+  }, [onDismiss])
+
+  useEffect(() => {
+    const timer = setTimeout(() => onDismissRef.current(), duration)
+    return () => clearTimeout(timer)
+  }, [duration])
+
+  return (
+    <div className="fixed bottom-4 inset-x-0 flex justify-center px-4 z-40">
+      <div className="flex items-center gap-4 bg-gray-800 text-white text-sm rounded-lg shadow-lg px-4 py-3">
+        <span>{message}</span>
+        <button
+          onClick={onUndo}
+          className="font-semibold text-indigo-300 hover:text-indigo-200 transition-colors"
+        >
+          Undo
+        </button>
+      </div>
+    </div>
+  )
+}
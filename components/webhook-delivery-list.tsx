@@ -0,0 +1,57 @@
+'use client'
+
+import type { Webhook, WebhookDelivery } from '@/lib/webhooks/types'
+
+interface WebhookDeliveryListProps {
+  deliveries: WebhookDelivery[]
+  webhooks: Webhook[]
+}
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit'
+  })
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  succeeded: 'bg-green-100 text-green-700',
+  pending: 'bg-yellow-100 text-yellow-700',
+  failed: 'bg-red-100 text-red-700'
+}
+
+// Delivery log: one row per event per webhook, with the receiver's status code
+export function WebhookDeliveryList({ deliveries, webhooks }: WebhookDeliveryListProps) {
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">No deliveries yet</p>
+  }
+
+  const urls = new Map(webhooks.map(webhook => [webhook.id, webhook.url]))
+
+  return (
+    <div className="space-y-2">
+      {deliveries.map(delivery => (
+        <div key={delivery.id} className="bg-white rounded-lg border border-gray-100 p-3 space-y-1">
+          <div className="flex items-center gap-2">
+            <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${STATUS_STYLES[delivery.status]}`}>
+              {delivery.status}
+            </span>
+            <span className="text-xs font-mono text-gray-700">{delivery.event}</span>
+            {delivery.responseStatus !== null && (
+              <span className="text-xs font-mono text-gray-500">HTTP {delivery.responseStatus}</span>
+            )}
+            <span className="ml-auto text-xs text-gray-500">{formatDate(delivery.createdAt)}</span>
+          </div>
+          <div className="text-xs text-gray-500 truncate">{urls.get(delivery.webhookId) ?? 'Deleted webhook'}</div>
+          <div className="text-xs text-gray-500">
+            {delivery.attempts === 1 ? '1 attempt' : `${delivery.attempts} attempts`}
+            {delivery.status === 'pending' && delivery.attempts > 0 && <> • Next retry {formatDate(delivery.nextAttemptAt)}</>}
+            {delivery.error && delivery.status !== 'succeeded' && <> • {delivery.error}</>}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import { useState } from 'react'
+import { Webhook as WebhookIcon, Send, Eye, EyeOff } from 'lucide-react'
+import type { Webhook } from '@/lib/webhooks/types'
+
+interface WebhookListProps {
+  webhooks: Webhook[]
+  testingId: string | null
+  onTest: (webhook: Webhook) => void
+  onDelete: (webhook: Webhook) => void
+}
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+
+export function WebhookList({ webhooks, testingId, onTest, onDelete }: WebhookListProps) {
+  const [revealedId, setRevealedId] = useState<string | null>(null)
+
+  if (webhooks.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">No webhooks yet</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {webhooks.map(webhook => (
+        <div key={webhook.id} className="bg-white rounded-lg border border-gray-100 p-3 space-y-2">
+          <div className="flex items-center gap-3">
+            <WebhookIcon className="w-4 h-4 text-gray-400 flex-shrink-0" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="text-sm font-medium text-gray-700 truncate">{webhook.url}</div>
+              <div className="text-xs text-gray-500">Created {formatDate(webhook.createdAt)}</div>
+            </div>
+            <button
+              onClick={() => onTest(webhook)}
+              disabled={testingId === webhook.id}
+              className="px-3 py-1.5 text-xs font-medium text-indigo-600 hover:bg-indigo-50 disabled:text-indigo-300 rounded-lg transition-colors flex items-center gap-1"
+            >
+              <Send className="w-3 h-3" />
+              {testingId === webhook.id ? 'Sending...' : 'Send test'}
+            </button>
+            <button
+              onClick={() => onDelete(webhook)}
+              className="px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              Delete
+            </button>
+          </div>
+          {/* Receivers need the secret to check the X-Tea-Signature header */}
+          <div className="flex items-center gap-2 pl-7">
+            <code className="flex-1 text-xs font-mono break-all text-gray-500">
+              {revealedId === webhook.id ? webhook.secret : '••••••••••••••••'}
+            </code>
+            <button
+              onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+              className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+              title={revealedId === webhook.id ? 'Hide signing secret' : 'Show signing secret'}
+            >
+              {revealedId === webhook.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { fetchRemoteLogs } from '@/lib/logs/remote'
+import { getOperations, applyPendingOperations, readSnapshot, type OutboxOperation } from '@/lib/logs/outbox'
+import type { LogEntry } from '@/lib/logs/types'
+
+// Read-only view of a signed-in user's entries for pages outside the tracker. Like the tracker,
+// it shows the cached snapshot plus unsynced writes first, then the server's copy.
+// Trashed entries are left out. Guests are sent to the login page.
+export function useAccountLogs() {
+  const router = useRouter()
+  const [userId, setUserId] = useState<string | null>(null)
+  const [logs, setLogs] = useState<LogEntry[] | null>(null)
+  const [isOffline, setIsOffline] = useState(false)
+
+  useEffect(() => {
+    let isCancelled = false
+
+    const loadLogs = async () => {
+      const { data: { session } } = await createClient().auth.getSession()
+      if (!session) {
+        router.push('/auth/login')
+        return
+      }
+
+      const userId = session.user.id
+      if (!isCancelled) setUserId(userId)
+      const operations = await getOperations(userId).catch(() => [] as OutboxOperation[])
+      const snapshot = await readSnapshot(userId).catch(() => null)
+      if (snapshot && !isCancelled) {
+        setLogs(applyPendingOperations(snapshot, operations).filter(log => !log.deletedAt))
+      }
+
+      try {
+        const remoteLogs = applyPendingOperations(await fetchRemoteLogs(), operations)
+        if (!isCancelled) setLogs(remoteLogs.filter(log => !log.deletedAt))
+      } catch (error) {
+        console.error('Error loading logs:', error)
+        if (isCancelled) return
+        setIsOffline(true)
+        if (!snapshot) setLogs([])
+      }
+    }
+
+    loadLogs()
+    return () => {
+      isCancelled = true
+    }
+  }, [router])
+
+  return { userId, logs, isOffline }
+}
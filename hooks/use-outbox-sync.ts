@@ -0,0 +1,220 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  MAX_SYNC_ATTEMPTS,
+  enqueueOperation,
+  getOperations,
+  getRetryDelay,
+  getSyncStatuses,
+  removeOperation,
+  saveOperation,
+  type OutboxOperation,
+  type SyncStatus
+} from '@/lib/logs/outbox'
+import { RemoteError, createRemoteLog, updateRemoteLog, deleteRemoteLog } from '@/lib/logs/remote'
+import type { LogEntry } from '@/lib/logs/types'
+import type { RateLimitErrorBody } from '@/lib/rate-limit/limiter'
+import { isLocalImageRef } from '@/lib/images/refs'
+import { deleteLocalImage } from '@/lib/images/local'
+import { uploadLocalImage } from '@/lib/images/storage'
+import { createClient } from '@/lib/supabase/client'
+
+type NewOperation = Parameters<typeof enqueueOperation>[1]
+
+interface UseOutboxSyncOptions {
+  userId: string | null
+  // Called when another device's newer edit won over a queued edit
+  onConflict: (serverLog: LogEntry) => void
+  // Called once a screenshot taken on this device has moved to storage
+  onImageUploaded: (logId: string, imageRef: string) => void
+}
+
+// Screenshots taken offline wait in IndexedDB and are uploaded just before their entry is sent
+const sendOperation = async (userId: string, operation: OutboxOperation) => {
+  if (operation.type === 'delete') {
+    await deleteRemoteLog(operation.logId)
+    return { localImageRef: null, uploadedImageRef: null }
+  }
+
+  const localImageRef = operation.payload.imageRef && isLocalImageRef(operation.payload.imageRef)
+    ? operation.payload.imageRef
+    : null
+  const payload = localImageRef
+    ? { ...operation.payload, imageRef: await uploadLocalImage(createClient(), userId, operation.logId, localImageRef) }
+    : operation.payload
+
+  if (operation.type === 'create') {
+    await createRemoteLog(payload as LogEntry, operation.createdAt)
+  } else {
+    await updateRemoteLog(operation.logId, payload, operation.editedAt)
+  }
+
+  return { localImageRef, uploadedImageRef: payload.imageRef }
+}
+
+// Client errors that retrying won't fix; auth, timeouts and rate limits are worth another try
+const isPermanentFailure = (status: number) =>
+  status >= 400 && status < 500 && ![401, 408, 429].includes(status)
+
+export interface SyncRateLimit {
+  message: string
+  retryAt: number
+}
+
+// Pushes the IndexedDB outbox to the server in order, retrying with backoff whenever we're online
+export function useOutboxSync({ userId, onConflict, onImageUploaded }: UseOutboxSyncOptions) {
+  const [statuses, setStatuses] = useState<Record<string, SyncStatus>>({})
+  const [rateLimit, setRateLimit] = useState<SyncRateLimit | null>(null)
+  const callbacksRef = useRef({ onConflict, onImageUploaded })
+  const isFlushingRef = useRef(false)
+  const flushAgainRef = useRef(false)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    callbacksRef.current = { onConflict, onImageUploaded }
+  }, [onConflict, onImageUploaded])
+
+  const flush = useCallback(async () => {
+    if (!userId) return
+    if (isFlushingRef.current) {
+      flushAgainRef.current = true
+      return
+    }
+    isFlushingRef.current = true
+    if (timerRef.current) clearTimeout(timerRef.current)
+
+    try {
+      const operations = await getOperations(userId)
+      // Later writes to an entry wait until its earlier failed write is retried
+      const blockedLogIds = new Set<string>()
+
+      for (const operation of operations) {
+        if (operation.status === 'failed' || blockedLogIds.has(operation.logId)) {
+          blockedLogIds.add(operation.logId)
+          continue
+        }
+        if (!navigator.onLine || operation.nextAttemptAt > Date.now()) break
+
+        try {
+          const { localImageRef, uploadedImageRef } = await sendOperation(userId, operation)
+          await removeOperation(operation.id)
+          setRateLimit(null)
+          if (localImageRef && uploadedImageRef) {
+            callbacksRef.current.onImageUploaded(operation.logId, uploadedImageRef)
+            await deleteLocalImage(localImageRef)
+          }
+        } catch (error) {
+          const status = error instanceof RemoteError ? error.status : 0
+          const message = error instanceof Error ? error.message : 'Sync failed'
+
+          // Already purged, possibly from another device
+          if (status === 404 && operation.type === 'delete') {
+            await removeOperation(operation.id)
+            continue
+          }
+
+          // Conflict: the create already landed, or a newer edit from another device won
+          if (status === 409) {
+            await removeOperation(operation.id)
+            const serverLog = (error as RemoteError).body as { log?: LogEntry } | null
+            if (operation.type === 'update' && serverLog?.log) {
+              callbacksRef.current.onConflict(serverLog.log)
+            }
+            continue
+          }
+
+          // Rate limited: wait as long as the server asks without using up an attempt
+          if (status === 429) {
+            const body = (error as RemoteError).body as RateLimitErrorBody | null
+            const retryAt = Date.now() + (body?.retryAfter ?? 5) * 1000
+            await saveOperation({ ...operation, lastError: message, nextAttemptAt: retryAt })
+            setRateLimit({ message, retryAt })
+            break
+          }
+
+          const attempts = operation.attempts + 1
+          const isPermanent = isPermanentFailure(status)
+          await saveOperation({
+            ...operation,
+            attempts,
+            lastError: message,
+            status: isPermanent || attempts >= MAX_SYNC_ATTEMPTS ? 'failed' : 'pending',
+            nextAttemptAt: Date.now() + getRetryDelay(attempts)
+          })
+
+          if (isPermanent) {
+            blockedLogIds.add(operation.logId)
+            continue
+          }
+          // Likely offline or the server is struggling; keep the queue in order and back off
+          break
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing logs:', error)
+    } finally {
+      isFlushingRef.current = false
+    }
+
+    const remaining = await getOperations(userId).catch(() => [] as OutboxOperation[])
+    setStatuses(getSyncStatuses(remaining))
+
+    if (flushAgainRef.current) {
+      flushAgainRef.current = false
+      flush()
+      return
+    }
+
+    // Wake up for the next retry that is due
+    const nextAttempt = remaining
+      .filter(operation => operation.status === 'pending')
+      .reduce((earliest, operation) => Math.min(earliest, operation.nextAttemptAt), Infinity)
+    if (nextAttempt !== Infinity) {
+      timerRef.current = setTimeout(flush, Math.max(nextAttempt - Date.now(), 0))
+    }
+  }, [userId])
+
+  const enqueue = useCallback(async (operation: NewOperation) => {
+    if (!userId) return
+    await enqueueOperation(userId, operation)
+    setStatuses(getSyncStatuses(await getOperations(userId)))
+    flush()
+  }, [userId, flush])
+
+  // Give failed writes for an entry a fresh set of attempts
+  const retry = useCallback(async (logId: string) => {
+    if (!userId) return
+    const operations = await getOperations(userId)
+    await Promise.all(
+      operations
+        .filter(operation => operation.logId === logId && operation.status === 'failed')
+        .map(operation => saveOperation({ ...operation, status: 'pending', attempts: 0, nextAttemptAt: Date.now() }))
+    )
+    flush()
+  }, [userId, flush])
+
+  useEffect(() => {
+    if (!userId) {
+      setStatuses({})
+      setRateLimit(null)
+      return
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') flush()
+    }
+
+    flush()
+    window.addEventListener('online', flush)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      window.removeEventListener('online', flush)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      if (timerRef.current) clearTimeout(timerRef.current)
+    }
+  }, [userId, flush])
+
+  return { statuses, rateLimit, enqueue, retry }
+}
@@ -0,0 +1,172 @@
+import { zip, unzip, strToU8, strFromU8, type Zippable } from 'fflate'
+import type { LogEntry } from '@/lib/logs/types'
+import type { StreakData } from '@/lib/logs/streaks'
+import { parseLogEntry } from '@/lib/logs/validation'
+import { saveLocalImage } from '@/lib/images/local'
+import { extensionFor, toSafePathSegment } from '@/lib/images/refs'
+
+// A backup is a zip holding manifest.json plus each entry's screenshot under images/.
+// Bump BACKUP_VERSION when the manifest changes in a way older readers would misread.
+export const BACKUP_FORMAT = 'tea-tracker-backup'
+export const BACKUP_VERSION = 1
+
+const MANIFEST_PATH = 'manifest.json'
+
+export interface BackupPreferences {
+  simplifiedMode: boolean
+}
+
+interface BackupImagePaths {
+  full: string
+  thumbnail?: string
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT
+  version: typeof BACKUP_VERSION
+  createdAt: string
+  logs: LogEntry[]
+  // Keyed by log id; paths inside the zip
+  images: Record<string, BackupImagePaths>
+  // Informational: streaks are always recomputed from the entries on restore
+  streak: StreakData
+  preferences: BackupPreferences
+}
+
+export interface BackupImage {
+  blob: Blob
+  thumbnail?: Blob
+}
+
+export interface Backup {
+  createdAt: string
+  logs: LogEntry[]
+  images: Map<string, BackupImage>
+  preferences: BackupPreferences
+}
+
+// Shown to the user as is, so the message says what is wrong with the file
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BackupFormatError'
+  }
+}
+
+const typeFor = (path: string) => {
+  const extension = path.split('.').pop()?.toLowerCase()
+  return extension === 'jpg' ? 'image/jpeg' : `image/${extension || 'webp'}`
+}
+
+const toBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer())
+
+interface CreateBackupOptions {
+  logs: LogEntry[]
+  streak: StreakData
+  preferences: BackupPreferences
+  // Screenshot for one entry; null when it can't be found, in which case the entry is kept without it
+  loadImage: (log: LogEntry) => Promise<BackupImage | null>
+}
+
+export async function createBackupArchive({ logs, streak, preferences, loadImage }: CreateBackupOptions): Promise<Blob> {
+  // Screenshots are already compressed, so they are stored rather than deflated again
+  const files: Zippable = {}
+  const images: Record<string, BackupImagePaths> = {}
+
+  for (const log of logs) {
+    if (!log.imageRef) continue
+    const image = await loadImage(log).catch(error => {
+      console.error('Error loading screenshot for backup:', error)
+      return null
+    })
+    if (!image) continue
+
+    const name = toSafePathSegment(log.id)
+    const paths: BackupImagePaths = { full: `images/${name}.${extensionFor(image.blob.type)}` }
+    files[paths.full] = [await toBytes(image.blob), { level: 0 }]
+    if (image.thumbnail) {
+      paths.thumbnail = `images/${name}.thumb.${extensionFor(image.thumbnail.type)}`
+      files[paths.thumbnail] = [await toBytes(image.thumbnail), { level: 0 }]
+    }
+    images[log.id] = paths
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    logs,
+    images,
+    streak,
+    preferences
+  }
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2))
+
+  const bytes = await new Promise<Uint8Array>((resolve, reject) =>
+    zip(files, (error, data) => error ? reject(error) : resolve(data))
+  )
+  return new Blob([bytes], { type: 'application/zip' })
+}
+
+// Read and validate a backup. Entries that fail validation are dropped and counted.
+export async function readBackupArchive(file: Blob): Promise<Backup & { invalid: number }> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const files = await new Promise<Record<string, Uint8Array>>((resolve, reject) =>
+    unzip(bytes, (error, data) => error ? reject(error) : resolve(data))
+  ).catch(() => {
+    throw new BackupFormatError('This file is not a TEA Tracker backup.')
+  })
+
+  let manifest: Partial<BackupManifest>
+  try {
+    manifest = JSON.parse(strFromU8(files[MANIFEST_PATH]))
+  } catch {
+    throw new BackupFormatError('This backup is missing its manifest.')
+  }
+  if (manifest.format !== BACKUP_FORMAT || !Array.isArray(manifest.logs)) {
+    throw new BackupFormatError('This file is not a TEA Tracker backup.')
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BACKUP_VERSION) {
+    throw new BackupFormatError('This backup was made by a newer version of TEA Tracker.')
+  }
+
+  const logs: LogEntry[] = []
+  const images = new Map<string, BackupImage>()
+  let invalid = 0
+  for (const item of manifest.logs) {
+    // Image refs point at the backed-up device or account; the screenshot itself comes from the zip
+    const parsed = parseLogEntry(item && typeof item === 'object' ? { ...item, imageRef: null } : item)
+    if (parsed.error !== undefined) {
+      invalid += 1
+      continue
+    }
+    logs.push(parsed.value)
+
+    const paths = manifest.images?.[parsed.value.id]
+    const full = paths && files[paths.full]
+    if (full) {
+      const thumbnail = paths.thumbnail ? files[paths.thumbnail] : undefined
+      images.set(parsed.value.id, {
+        blob: new Blob([full], { type: typeFor(paths.full) }),
+        thumbnail: thumbnail && paths.thumbnail ? new Blob([thumbnail], { type: typeFor(paths.thumbnail) }) : undefined
+      })
+    }
+  }
+
+  return {
+    createdAt: typeof manifest.createdAt === 'string' ? manifest.createdAt : '',
+    logs,
+    images,
+    preferences: { simplifiedMode: manifest.preferences?.simplifiedMode === true },
+    invalid
+  }
+}
+
+// Put restored screenshots in this browser's image store and point the entries at them.
+// Users' copies upload to the account like any other screenshot taken on this device.
+export async function restoreBackupImages(logs: LogEntry[], images: Map<string, BackupImage>): Promise<LogEntry[]> {
+  return Promise.all(logs.map(async log => {
+    const image = images.get(log.id)
+    return image ? { ...log, imageRef: await saveLocalImage(image.blob, image.thumbnail) } : log
+  }))
+}
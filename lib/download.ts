@@ -0,0 +1,18 @@
+import { getLocalDateKey } from '@/lib/logs/days'
+
+// Save a file generated in the browser through a temporary link
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// e.g. tea-logs-2026-10-18.csv, dated in the device's time zone
+export const getExportFilename = (name: string, extension: string, date = new Date()) =>
+  `${name}-${getLocalDateKey(date)}.${extension}`
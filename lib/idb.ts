@@ -0,0 +1,63 @@
+// Minimal promise wrapper around the browser's IndexedDB for the tracker's offline data
+
+const DB_NAME = 'tea-tracker'
+const DB_VERSION = 2
+
+export type StoreName = 'outbox' | 'snapshots' | 'images'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains('outbox')) {
+          db.createObjectStore('outbox', { keyPath: 'id' })
+        }
+        if (!db.objectStoreNames.contains('snapshots')) {
+          db.createObjectStore('snapshots', { keyPath: 'userId' })
+        }
+        if (!db.objectStoreNames.contains('images')) {
+          db.createObjectStore('images', { keyPath: 'key' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeName, mode)
+  return promisify(run(transaction.objectStore(storeName)))
+}
+
+export const idbGet = <T>(storeName: StoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(storeName, 'readonly', store => store.get(key))
+
+export const idbGetAll = <T>(storeName: StoreName) =>
+  withStore<T[]>(storeName, 'readonly', store => store.getAll())
+
+export const idbPut = <T>(storeName: StoreName, value: T) =>
+  withStore(storeName, 'readwrite', store => store.put(value))
+
+export const idbDelete = (storeName: StoreName, key: IDBValidKey) =>
+  withStore(storeName, 'readwrite', store => store.delete(key))
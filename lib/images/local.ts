@@ -0,0 +1,58 @@
+import { idbGet, idbPut, idbDelete } from '@/lib/idb'
+import { getLocalImageKey, isLegacyImageRef, toLocalImageRef, type ImageVariant } from './refs'
+import type { LogEntry } from '@/lib/logs/types'
+
+export interface StoredImage {
+  key: string
+  blob: Blob
+  thumbnail?: Blob // Missing for screenshots stored before the image pipeline
+}
+
+// Browsers report a full origin quota with different error names
+export const isQuotaExceededError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+
+export async function saveLocalImage(blob: Blob, thumbnail?: Blob): Promise<string> {
+  const key = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  await idbPut<StoredImage>('images', { key, blob, thumbnail })
+  return toLocalImageRef(key)
+}
+
+export const getStoredImage = (ref: string) => idbGet<StoredImage>('images', getLocalImageKey(ref))
+
+export async function getLocalImage(ref: string, variant: ImageVariant = 'full'): Promise<Blob | null> {
+  const stored = await getStoredImage(ref)
+  if (!stored) return null
+  return variant === 'thumbnail' ? stored.thumbnail ?? stored.blob : stored.blob
+}
+
+export const deleteLocalImage = (ref: string) => idbDelete('images', getLocalImageKey(ref))
+
+// Entries saved before screenshots moved out of localStorage embed them as data URLs
+type StoredLogEntry = LogEntry & { imagePreview?: string | null }
+
+// Move embedded data URLs into IndexedDB; returns whether anything changed
+export async function migrateLegacyImages(logs: StoredLogEntry[]): Promise<{ logs: LogEntry[]; changed: boolean }> {
+  let changed = false
+  const migrated: LogEntry[] = []
+
+  for (const { imagePreview, ...log } of logs) {
+    const embedded = imagePreview ?? (log.imageRef && isLegacyImageRef(log.imageRef) ? log.imageRef : null)
+    if (imagePreview !== undefined) changed = true
+
+    if (embedded) {
+      try {
+        const blob = await (await fetch(embedded)).blob()
+        migrated.push({ ...log, imageRef: await saveLocalImage(blob) })
+        changed = true
+        continue
+      } catch (error) {
+        console.error('Error migrating screenshot:', error)
+      }
+    }
+    migrated.push({ ...log, imageRef: embedded ?? log.imageRef ?? null })
+  }
+
+  return { logs: migrated, changed }
+}
@@ -0,0 +1,116 @@
+// Screenshots are decoded, downscaled and re-encoded in the browser before they are stored.
+// Drawing to a canvas drops EXIF (GPS, device info) since only pixels survive the re-encode.
+// Animated GIFs keep their first frame.
+
+export interface ImagePipelineOptions {
+  maxDimension: number // Longest side of the full-size variant, in pixels
+  thumbnailSize: number // Square thumbnail edge; 2x the 64px History tile for sharp screens
+  quality: number
+  thumbnailQuality: number
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImagePipelineOptions = {
+  maxDimension: Number(process.env.NEXT_PUBLIC_IMAGE_MAX_DIMENSION) || 1600,
+  thumbnailSize: 128,
+  quality: 0.82,
+  thumbnailQuality: 0.7
+}
+
+export interface ProcessedImage {
+  full: Blob
+  thumbnail: Blob
+  width: number
+  height: number
+}
+
+type Drawable = ImageBitmap | HTMLImageElement
+
+// Honour the EXIF orientation while decoding so rotated phone photos stay upright
+const decodeImage = async (file: Blob): Promise<Drawable> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' })
+    } catch {
+      // Fall through to an <img> decode for formats createImageBitmap rejects
+    }
+  }
+
+  const url = URL.createObjectURL(file)
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+    return image
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality))
+
+// Prefer WebP; browsers that can't encode it hand back a PNG, so retry as JPEG
+const encodeCanvas = async (canvas: HTMLCanvasElement, quality: number): Promise<Blob> => {
+  const webp = await canvasToBlob(canvas, 'image/webp', quality)
+  if (webp && webp.type === 'image/webp') return webp
+
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', quality)
+  if (!jpeg) throw new Error('Could not encode image')
+  return jpeg
+}
+
+const drawToCanvas = (
+  source: Drawable,
+  width: number,
+  height: number,
+  crop?: { x: number; y: number; size: number }
+) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not supported')
+
+  // JPEG has no alpha, so flatten transparent screenshots onto white
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, width, height)
+  context.imageSmoothingQuality = 'high'
+  if (crop) {
+    context.drawImage(source, crop.x, crop.y, crop.size, crop.size, 0, 0, width, height)
+  } else {
+    context.drawImage(source, 0, 0, width, height)
+  }
+  return canvas
+}
+
+export async function processImage(
+  file: Blob,
+  options: ImagePipelineOptions = DEFAULT_IMAGE_OPTIONS
+): Promise<ProcessedImage> {
+  const source = await decodeImage(file)
+  const sourceWidth = source.width
+  const sourceHeight = source.height
+
+  try {
+    const scale = Math.min(1, options.maxDimension / Math.max(sourceWidth, sourceHeight))
+    const width = Math.round(sourceWidth * scale)
+    const height = Math.round(sourceHeight * scale)
+    const full = await encodeCanvas(drawToCanvas(source, width, height), options.quality)
+
+    // Centre-cropped square to match the object-cover History tile
+    const cropSize = Math.min(sourceWidth, sourceHeight)
+    const thumbnailEdge = Math.min(options.thumbnailSize, cropSize)
+    const thumbnail = await encodeCanvas(
+      drawToCanvas(source, thumbnailEdge, thumbnailEdge, {
+        x: (sourceWidth - cropSize) / 2,
+        y: (sourceHeight - cropSize) / 2,
+        size: cropSize
+      }),
+      options.thumbnailQuality
+    )
+
+    return { full, thumbnail, width, height }
+  } finally {
+    if ('close' in source) source.close()
+  }
+}
@@ -0,0 +1,42 @@
+// A LogEntry's imageRef points at its screenshot instead of embedding it:
+// - `idb:<key>`      blob in this browser's IndexedDB (guests, and users' uploads waiting to sync)
+// - `storage:<path>` object in the user's folder of the Supabase Storage bucket
+// - `data:image/...` legacy entries that embedded the image as a data URL
+
+export const SCREENSHOT_BUCKET = 'tea-screenshots'
+
+// History tiles use the small thumbnail, the expanded view the full-size image
+export type ImageVariant = 'full' | 'thumbnail'
+
+const LOCAL_PREFIX = 'idb:'
+const STORAGE_PREFIX = 'storage:'
+
+export const isLocalImageRef = (ref: string) => ref.startsWith(LOCAL_PREFIX)
+export const isStorageImageRef = (ref: string) => ref.startsWith(STORAGE_PREFIX)
+export const isLegacyImageRef = (ref: string) => ref.startsWith('data:image/')
+
+export const toLocalImageRef = (key: string) => `${LOCAL_PREFIX}${key}`
+export const toStorageImageRef = (path: string) => `${STORAGE_PREFIX}${path}`
+
+export const getLocalImageKey = (ref: string) => ref.slice(LOCAL_PREFIX.length)
+export const getStoragePath = (ref: string) => ref.slice(STORAGE_PREFIX.length)
+
+// Thumbnails sit next to the full image: `<user>/<log>.webp` -> `<user>/<log>.thumb.webp`
+export const getThumbnailPath = (path: string) => path.replace(/(\.[^./]+)?$/, '.thumb$1')
+
+// File extension for a screenshot's MIME type, for storage paths and exported files
+export const extensionFor = (type: string) => type.split('/')[1]?.replace('jpeg', 'jpg') || 'img'
+
+// Log ids are arbitrary client strings, so one only goes into a file path as is when it is made
+// of safe characters. Otherwise the rest are replaced and a hash of the id keeps names distinct.
+const SAFE_PATH_SEGMENT = /^[A-Za-z0-9_-]{1,100}$/
+
+export const toSafePathSegment = (id: string) => {
+  if (SAFE_PATH_SEGMENT.test(id)) return id
+  // FNV-1a
+  let hash = 0x811c9dc5
+  for (let i = 0; i < id.length; i++) {
+    hash = Math.imul(hash ^ id.charCodeAt(i), 0x01000193)
+  }
+  return `${id.replace(/[^A-Za-z0-9_-]/g, '_').slice(0, 80)}.${(hash >>> 0).toString(16)}`
+}
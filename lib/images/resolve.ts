@@ -0,0 +1,28 @@
+import { createClient } from '@/lib/supabase/client'
+import { isLocalImageRef, isStorageImageRef, type ImageVariant } from './refs'
+import { getLocalImage } from './local'
+import { getSignedImageUrl } from './storage'
+
+// Object URLs live for the session so History tiles and the expanded view share one per image
+const objectUrls = new Map<string, string>()
+
+// Turn an imageRef into something an <img> can display
+export async function resolveImageUrl(ref: string, variant: ImageVariant = 'full'): Promise<string> {
+  if (isLocalImageRef(ref)) {
+    const cacheKey = `${variant}:${ref}`
+    const cached = objectUrls.get(cacheKey)
+    if (cached) return cached
+
+    const blob = await getLocalImage(ref, variant)
+    if (!blob) throw new Error('Screenshot is missing from this device')
+    const url = URL.createObjectURL(blob)
+    objectUrls.set(cacheKey, url)
+    return url
+  }
+
+  if (isStorageImageRef(ref)) {
+    return getSignedImageUrl(createClient(), ref, variant)
+  }
+
+  return ref
+}
@@ -0,0 +1,94 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  SCREENSHOT_BUCKET,
+  getLocalImageKey,
+  getStoragePath,
+  getThumbnailPath,
+  extensionFor,
+  isLocalImageRef,
+  toSafePathSegment,
+  toStorageImageRef,
+  type ImageVariant
+} from './refs'
+import { getStoredImage } from './local'
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+// Upload a browser-local screenshot into the user's storage folder and return its storage ref.
+// The path is derived from the entry and the local key, so a retried upload overwrites rather
+// than duplicates while a replacement screenshot gets a path of its own.
+export async function uploadLocalImage(
+  supabase: SupabaseClient,
+  userId: string,
+  logId: string,
+  ref: string
+): Promise<string> {
+  if (!isLocalImageRef(ref)) return ref
+
+  const stored = await getStoredImage(ref)
+  if (!stored) throw new Error('Screenshot is missing from this device')
+  const { blob, thumbnail } = stored
+
+  const path = `${userId}/${toSafePathSegment(logId)}-${getLocalImageKey(ref)}.${extensionFor(blob.type)}`
+  const bucket = supabase.storage.from(SCREENSHOT_BUCKET)
+  const { error } = await bucket.upload(path, blob, { contentType: blob.type, upsert: true })
+  if (error) throw error
+
+  if (thumbnail) {
+    const { error: thumbnailError } = await bucket.upload(getThumbnailPath(path), thumbnail, {
+      contentType: thumbnail.type,
+      upsert: true
+    })
+    if (thumbnailError) throw thumbnailError
+  }
+
+  return toStorageImageRef(path)
+}
+
+// Fetch a stored screenshot and its thumbnail as blobs, e.g. to put them in a backup.
+// Screenshots uploaded before thumbnails existed come back without one.
+export async function downloadStorageImage(
+  supabase: SupabaseClient,
+  ref: string
+): Promise<{ blob: Blob; thumbnail?: Blob }> {
+  const path = getStoragePath(ref)
+  const bucket = supabase.storage.from(SCREENSHOT_BUCKET)
+  const { data, error } = await bucket.download(path)
+  if (error) throw error
+
+  const { data: thumbnail } = await bucket.download(getThumbnailPath(path))
+  return { blob: data, thumbnail: thumbnail ?? undefined }
+}
+
+const signedUrls = new Map<string, { url: string; expiresAt: number }>()
+
+const createSignedUrl = async (supabase: SupabaseClient, path: string): Promise<string> => {
+  const cached = signedUrls.get(path)
+  if (cached && cached.expiresAt > Date.now()) return cached.url
+
+  const { data, error } = await supabase.storage
+    .from(SCREENSHOT_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS)
+
+  if (error) throw error
+  signedUrls.set(path, { url: data.signedUrl, expiresAt: Date.now() + (SIGNED_URL_TTL_SECONDS - 60) * 1000 })
+  return data.signedUrl
+}
+
+// Signed URLs are cached until shortly before they expire. Screenshots uploaded
+// before thumbnails existed fall back to the full image.
+export async function getSignedImageUrl(
+  supabase: SupabaseClient,
+  ref: string,
+  variant: ImageVariant = 'full'
+): Promise<string> {
+  const path = getStoragePath(ref)
+  if (variant === 'thumbnail') {
+    try {
+      return await createSignedUrl(supabase, getThumbnailPath(path))
+    } catch {
+      // No thumbnail stored for this screenshot
+    }
+  }
+  return createSignedUrl(supabase, path)
+}
@@ -0,0 +1,14 @@
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp']
+
+export const MAX_IMAGE_FILE_SIZE = 20 * 1024 * 1024 // 20MB before resizing
+
+// Shared by the create form and the entry editor; returns a message for the user or null
+export const validateImageFile = (file: File): string | null => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return 'Please upload an image file (JPEG, PNG, GIF, or WebP)'
+  }
+  if (file.size > MAX_IMAGE_FILE_SIZE) {
+    return 'File size must be less than 20MB'
+  }
+  return null
+}
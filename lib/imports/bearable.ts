@@ -0,0 +1,48 @@
+import { parseLocalDateTime } from './dates'
+import type { SourceExtract, SourceTable } from './types'
+
+// Bearable's export has one row per tracked item: date, time of day, category, rating/amount,
+// detail and notes. Energy ratings are used when there are any, mood ratings otherwise.
+export const isBearableTable = ({ columns }: SourceTable) =>
+  ['category', 'rating/amount'].every(column => columns.includes(column))
+
+// Bearable buckets check-ins into parts of the day rather than exact times
+const TIME_OF_DAY: Record<string, string> = {
+  am: '09:00',
+  mid: '13:00',
+  pm: '18:00',
+  'all day': '12:00'
+}
+
+export const extractBearable = ({ columns, rows }: SourceTable): SourceExtract => {
+  const cell = (cells: string[], column: string) => (cells[columns.indexOf(column)] ?? '').trim()
+  const hasEnergy = rows.some(cells => cell(cells, 'category').toLowerCase() === 'energy')
+  const category = hasEnergy ? 'energy' : 'mood'
+  const extract: SourceExtract = { records: [], errors: [] }
+
+  rows.forEach((cells, index) => {
+    if (cell(cells, 'category').toLowerCase() !== category) return
+    const row = index + 2
+
+    const date = cell(cells, 'date') || cell(cells, 'date formatted')
+    const timeOfDay = cell(cells, 'time of day').toLowerCase()
+    // Dates that already carry a time keep it
+    const timestamp = /\d:\d/.test(date)
+      ? parseLocalDateTime(date)
+      : parseLocalDateTime(date, TIME_OF_DAY[timeOfDay] ?? (timeOfDay || '12:00'))
+    if (!timestamp) {
+      extract.errors.push({ row, message: 'Could not read the date and time' })
+      return
+    }
+    const value = cell(cells, 'rating/amount')
+    if (!value) {
+      extract.errors.push({ row, message: `No ${category} rating` })
+      return
+    }
+
+    const note = [cell(cells, 'detail'), cell(cells, 'notes')].filter(Boolean).join(' – ')
+    extract.records.push({ row, timestamp, value, note: note || null })
+  })
+
+  return extract
+}
@@ -0,0 +1,36 @@
+// Exports from other apps write dates and times in the exporting device's time zone and in
+// whatever format its locale uses, so both are read as local time.
+
+// "2024-01-15" or "2024/01/15"; anything else, full timestamps included, is left to Date
+const ISO_DATE = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/
+
+// "20:30", "8:30 PM", "08:30:15"
+const TIME = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i
+
+export const parseLocalTime = (value: string): { hours: number; minutes: number } | null => {
+  const match = value.trim().match(TIME)
+  if (!match) return null
+  let hours = Number(match[1])
+  const minutes = Number(match[2])
+  const meridiem = match[4]?.toLowerCase().replace(/\./g, '')
+  if (meridiem === 'pm' && hours < 12) hours += 12
+  if (meridiem === 'am' && hours === 12) hours = 0
+  if (hours > 23 || minutes > 59) return null
+  return { hours, minutes }
+}
+
+// ISO timestamp for a local date and optional time; null when either can't be read
+export const parseLocalDateTime = (date: string, time?: string | null): string | null => {
+  const match = date.trim().match(ISO_DATE)
+  const parsed = match
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+    : new Date(date.trim())
+  if (Number.isNaN(parsed.getTime())) return null
+
+  if (time) {
+    const clock = parseLocalTime(time)
+    if (!clock) return null
+    parsed.setHours(clock.hours, clock.minutes, 0, 0)
+  }
+  return parsed.toISOString()
+}
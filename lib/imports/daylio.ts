@@ -0,0 +1,37 @@
+import { parseLocalDateTime } from './dates'
+import type { SourceExtract, SourceTable } from './types'
+
+// Daylio's "Export entries (CSV)": full_date, date, weekday, time, mood, activities, note_title, note.
+// Moods are the user's own labels (rad, good, meh, bad, awful by default).
+export const isDaylioTable = ({ columns }: SourceTable) =>
+  ['full_date', 'time', 'mood'].every(column => columns.includes(column))
+
+// Notes may carry Daylio's HTML line breaks
+const toPlainText = (value: string) =>
+  value.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()
+
+export const extractDaylio = ({ columns, rows }: SourceTable): SourceExtract => {
+  const cell = (cells: string[], column: string) => (cells[columns.indexOf(column)] ?? '').trim()
+  const extract: SourceExtract = { records: [], errors: [] }
+
+  rows.forEach((cells, index) => {
+    const row = index + 2
+    const timestamp = parseLocalDateTime(cell(cells, 'full_date'), cell(cells, 'time'))
+    if (!timestamp) {
+      extract.errors.push({ row, message: 'Could not read the date and time' })
+      return
+    }
+    const value = cell(cells, 'mood')
+    if (!value) {
+      extract.errors.push({ row, message: 'No mood' })
+      return
+    }
+
+    // Activities stand in for the note when the entry has no text of its own
+    const text = [cell(cells, 'note_title'), cell(cells, 'note')].map(toPlainText).filter(Boolean).join(' – ')
+    const activities = cell(cells, 'activities').split('|').map(activity => activity.trim()).filter(Boolean).join(', ')
+    extract.records.push({ row, timestamp, value, note: text || activities || null })
+  })
+
+  return extract
+}
@@ -0,0 +1,107 @@
+import { MAX_NOTE_LENGTH, energyLevels } from '@/lib/logs/constants'
+import { parseCsv } from '@/lib/logs/csv'
+import type { LogEntry } from '@/lib/logs/types'
+import { parseLogEntry } from '@/lib/logs/validation'
+import { isDaylioTable } from './daylio'
+import { isBearableTable } from './bearable'
+import type { ImportSourceId, SourceRecord, SourceRowError, SourceTable } from './types'
+
+export const readSourceTable = (text: string): SourceTable => {
+  const [header = [], ...rows] = parseCsv(text)
+  return { columns: header.map(name => name.trim().toLowerCase()), rows }
+}
+
+export const detectSource = (table: SourceTable): ImportSourceId => {
+  if (isDaylioTable(table)) return 'daylio'
+  if (isBearableTable(table)) return 'bearable'
+  return 'spreadsheet'
+}
+
+// How each distinct value in the source translates to an energy level (1-5)
+export type ScaleMapping = Record<string, number>
+
+// Words other trackers commonly use for their scales, and the energy level they suggest
+const LABEL_LEVELS: Record<string, number> = {
+  rad: 5, great: 5, awesome: 5, excellent: 5, amazing: 5,
+  good: 4, happy: 4,
+  meh: 3, ok: 3, okay: 3, fine: 3, neutral: 3,
+  bad: 2, low: 2, sad: 2, tired: 2,
+  awful: 1, terrible: 1, horrible: 1, exhausted: 1
+}
+
+const isNumeric = (value: string) => value !== '' && !Number.isNaN(Number(value))
+
+// Distinct values in the order the mapping preview lists them: numbers low to high, labels by count
+export const getSourceValues = (records: SourceRecord[]): { value: string; count: number }[] => {
+  const counts = new Map<string, number>()
+  records.forEach(record => counts.set(record.value, (counts.get(record.value) ?? 0) + 1))
+  const values = Array.from(counts, ([value, count]) => ({ value, count }))
+
+  return values.every(({ value }) => isNumeric(value))
+    ? values.sort((a, b) => Number(a.value) - Number(b.value))
+    : values.sort((a, b) => b.count - a.count)
+}
+
+// Starting point for the mapping preview. Numeric scales are stretched linearly onto 1-5;
+// labels match the tracker's own energy labels or common mood words, and default to Steady.
+export const guessScaleMapping = (values: string[]): ScaleMapping => {
+  const mapping: ScaleMapping = {}
+  const clamp = (level: number) => Math.min(Math.max(Math.round(level), 1), 5)
+
+  if (values.length > 0 && values.every(isNumeric)) {
+    const numbers = values.map(Number)
+    const min = Math.min(...numbers)
+    const max = Math.max(...numbers)
+    // A 1-5 source that happens not to use every level still maps one to one
+    const isFiveLevelScale = min >= 1 && max <= 5 && numbers.every(Number.isInteger)
+    values.forEach(value => {
+      const number = Number(value)
+      mapping[value] = isFiveLevelScale ? number : max === min ? 3 : clamp(1 + ((number - min) / (max - min)) * 4)
+    })
+    return mapping
+  }
+
+  values.forEach(value => {
+    const label = value.trim().toLowerCase()
+    mapping[value] = energyLevels.find(level => level.label.toLowerCase() === label)?.value ?? LABEL_LEVELS[label] ?? 3
+  })
+  return mapping
+}
+
+export interface MappedImport {
+  logs: LogEntry[]
+  // Rows the tracker itself would reject, e.g. ones dated in the future
+  errors: SourceRowError[]
+  // Notes cut down to the tracker's note length
+  truncatedNotes: number
+}
+
+// Build tracker entries from mapped records. Ids follow the tracker's own (creation time in ms)
+// so importing the same file twice is caught as a duplicate.
+export const mapRecordsToLogs = (records: SourceRecord[], mapping: ScaleMapping, attention: string): MappedImport => {
+  const mapped: MappedImport = { logs: [], errors: [], truncatedNotes: 0 }
+
+  records.forEach(record => {
+    let note = record.note
+    if (note && note.length > MAX_NOTE_LENGTH) {
+      note = `${note.slice(0, MAX_NOTE_LENGTH - 1)}…`
+      mapped.truncatedNotes += 1
+    }
+
+    const parsed = parseLogEntry({
+      id: String(new Date(record.timestamp).getTime()),
+      timestamp: record.timestamp,
+      energy: mapping[record.value] ?? 3,
+      attention,
+      note,
+      imageRef: null
+    })
+    if (parsed.error !== undefined) {
+      mapped.errors.push({ row: record.row, message: parsed.error })
+    } else {
+      mapped.logs.push(parsed.value)
+    }
+  })
+
+  return mapped
+}
@@ -0,0 +1,54 @@
+import { parseLocalDateTime } from './dates'
+import type { SourceExtract, SourceTable } from './types'
+
+// Which columns of a hand-kept spreadsheet hold what; indexes into SourceTable.columns
+export interface SpreadsheetColumns {
+  date: number
+  time: number | null // Left out when the date column already holds the time
+  value: number
+  note: number | null
+}
+
+const findColumn = (columns: string[], names: string[]) => {
+  const index = columns.findIndex(column => names.some(name => column.includes(name)))
+  return index === -1 ? null : index
+}
+
+// Best guess from the header; the mapping preview lets the user correct it
+export const guessSpreadsheetColumns = ({ columns }: SourceTable): SpreadsheetColumns => {
+  const date = findColumn(columns, ['timestamp', 'date', 'day', 'when']) ?? 0
+  const time = findColumn(columns, ['time'])
+  const value = findColumn(columns, ['energy', 'mood', 'rating', 'score', 'level', 'value'])
+  const note = findColumn(columns, ['note', 'comment', 'description', 'journal', 'text'])
+  return {
+    date,
+    time: time === date ? null : time,
+    value: value ?? (date === 0 && columns.length > 1 ? 1 : 0),
+    note
+  }
+}
+
+export const extractSpreadsheet = ({ rows }: SourceTable, columns: SpreadsheetColumns): SourceExtract => {
+  const extract: SourceExtract = { records: [], errors: [] }
+
+  rows.forEach((cells, index) => {
+    const row = index + 2
+    const date = (cells[columns.date] ?? '').trim()
+    const time = columns.time === null ? null : (cells[columns.time] ?? '').trim()
+    const timestamp = date ? parseLocalDateTime(date, time || null) : null
+    if (!timestamp) {
+      extract.errors.push({ row, message: 'Could not read the date and time' })
+      return
+    }
+    const value = (cells[columns.value] ?? '').trim()
+    if (!value) {
+      extract.errors.push({ row, message: 'No value to map onto energy' })
+      return
+    }
+
+    const note = columns.note === null ? '' : (cells[columns.note] ?? '').trim()
+    extract.records.push({ row, timestamp, value, note: note || null })
+  })
+
+  return extract
+}
@@ -0,0 +1,33 @@
+// Apps and formats the tracker can import from besides its own CSV
+export type ImportSourceId = 'daylio' | 'bearable' | 'spreadsheet'
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSourceId, string> = {
+  daylio: 'Daylio',
+  bearable: 'Bearable',
+  spreadsheet: 'Spreadsheet'
+}
+
+// One reading taken from another app's export, before its scale is mapped onto energy
+export interface SourceRecord {
+  // Row number in the file, counting the header as row 1
+  row: number
+  timestamp: string
+  value: string
+  note: string | null
+}
+
+export interface SourceRowError {
+  row: number
+  message: string
+}
+
+export interface SourceExtract {
+  records: SourceRecord[]
+  errors: SourceRowError[]
+}
+
+// A parsed CSV: lower-cased header names and the rows below them
+export interface SourceTable {
+  columns: string[]
+  rows: string[][]
+}
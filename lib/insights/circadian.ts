@@ -0,0 +1,172 @@
+import type { LogEntry } from '@/lib/logs/types'
+import { MIN_SAMPLE_SIZE } from './patterns'
+
+// A personal daily energy rhythm: entries are binned by local time of day, and the curve is a
+// kernel-smoothed average that wraps around midnight. The per-bin sums are kept in localStorage
+// and updated from what changed since last time, so a long history isn't re-binned on each visit.
+
+export const BIN_MINUTES = 15
+const BIN_COUNT = (24 * 60) / BIN_MINUTES
+// Spread of the smoothing kernel; wider gives a smoother but blurrier curve
+const BANDWIDTH_MINUTES = 90
+// How long the peak and trough windows are
+export const WINDOW_MINUTES = 120
+// 95% confidence
+const Z_SCORE = 1.96
+
+const STATE_KEY = 'tea-circadian'
+const STATE_VERSION = 1
+
+interface BinTotals {
+  count: number
+  sum: number
+  sumOfSquares: number
+}
+
+export interface CircadianState {
+  version: typeof STATE_VERSION
+  userId: string
+  // What each counted entry contributed, as [bin, energy], so edits and deletions can be taken back out
+  entries: Record<string, [number, number]>
+  bins: BinTotals[]
+}
+
+const createState = (userId: string): CircadianState => ({
+  version: STATE_VERSION,
+  userId,
+  entries: {},
+  bins: Array.from({ length: BIN_COUNT }, () => ({ count: 0, sum: 0, sumOfSquares: 0 }))
+})
+
+// The stored state for this user, or a fresh one if there is none or it belongs to someone else
+export const readCircadianState = (userId: string): CircadianState => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STATE_KEY) || 'null') as CircadianState | null
+    if (saved?.version === STATE_VERSION && saved.userId === userId) return saved
+  } catch (error) {
+    console.error('Error reading circadian curve:', error)
+  }
+  return createState(userId)
+}
+
+export const saveCircadianState = (state: CircadianState) => localStorage.setItem(STATE_KEY, JSON.stringify(state))
+
+export const clearCircadianState = () => localStorage.removeItem(STATE_KEY)
+
+const getBin = (timestamp: string) => {
+  const date = new Date(timestamp)
+  return Math.floor((date.getHours() * 60 + date.getMinutes()) / BIN_MINUTES)
+}
+
+// Bring the totals in line with the current entries, touching only entries that were added,
+// edited or removed. Returns the same state object when nothing changed.
+export const updateCircadianState = (state: CircadianState, logs: LogEntry[]): CircadianState => {
+  const current = new Map(logs.map(log => [log.id, [getBin(log.timestamp), log.energy] as [number, number]]))
+  const stale = Object.entries(state.entries).filter(([id, [bin, energy]]) => {
+    const next = current.get(id)
+    return !next || next[0] !== bin || next[1] !== energy
+  })
+  const added = Array.from(current).filter(([id]) => {
+    const previous = state.entries[id]
+    const next = current.get(id)!
+    return !previous || previous[0] !== next[0] || previous[1] !== next[1]
+  })
+  if (stale.length === 0 && added.length === 0) return state
+
+  const bins = state.bins.map(bin => ({ ...bin }))
+  const entries = { ...state.entries }
+  stale.forEach(([id, [bin, energy]]) => {
+    bins[bin].count -= 1
+    bins[bin].sum -= energy
+    bins[bin].sumOfSquares -= energy ** 2
+    delete entries[id]
+  })
+  added.forEach(([id, [bin, energy]]) => {
+    bins[bin].count += 1
+    bins[bin].sum += energy
+    bins[bin].sumOfSquares += energy ** 2
+    entries[id] = [bin, energy]
+  })
+  return { ...state, entries, bins }
+}
+
+export interface CurvePoint {
+  minute: number
+  // Kernel-weighted number of entries behind the point
+  effectiveCount: number
+  // null where there are too few nearby entries to say anything
+  mean: number | null
+  lower: number | null
+  upper: number | null
+}
+
+// Distance in bins, the short way round the clock
+const circularDistance = (a: number, b: number) => {
+  const distance = Math.abs(a - b)
+  return Math.min(distance, BIN_COUNT - distance)
+}
+
+export const fitCircadianCurve = (state: CircadianState): CurvePoint[] => {
+  const bandwidth = BANDWIDTH_MINUTES / BIN_MINUTES
+  return state.bins.map((_, center) => {
+    let weightedCount = 0
+    let weightedSquaredCount = 0
+    let weightedSum = 0
+    let weightedSumOfSquares = 0
+    state.bins.forEach((bin, index) => {
+      if (bin.count === 0) return
+      const weight = Math.exp(-(circularDistance(center, index) ** 2) / (2 * bandwidth ** 2))
+      weightedCount += weight * bin.count
+      weightedSquaredCount += weight ** 2 * bin.count
+      weightedSum += weight * bin.sum
+      weightedSumOfSquares += weight * bin.sumOfSquares
+    })
+
+    const minute = center * BIN_MINUTES
+    const effectiveCount = weightedCount > 0 ? weightedCount ** 2 / weightedSquaredCount : 0
+    if (effectiveCount < MIN_SAMPLE_SIZE) {
+      return { minute, effectiveCount, mean: null, lower: null, upper: null }
+    }
+
+    const mean = weightedSum / weightedCount
+    const variance = Math.max(weightedSumOfSquares / weightedCount - mean ** 2, 0) * effectiveCount / (effectiveCount - 1)
+    const margin = Z_SCORE * Math.sqrt(variance / effectiveCount)
+    return {
+      minute,
+      effectiveCount,
+      mean,
+      lower: Math.max(mean - margin, 1),
+      upper: Math.min(mean + margin, 5)
+    }
+  })
+}
+
+export interface CurveWindow {
+  startMinute: number
+  endMinute: number
+  mean: number
+  lower: number
+  upper: number
+}
+
+// Highest and lowest stretches of the curve, only counting stretches with data all the way through
+export const findCurveWindows = (curve: CurvePoint[]): { peak: CurveWindow | null; trough: CurveWindow | null } => {
+  const length = WINDOW_MINUTES / BIN_MINUTES
+  const windows: CurveWindow[] = []
+  curve.forEach((point, start) => {
+    const points = Array.from({ length }, (_, offset) => curve[(start + offset) % curve.length])
+    if (points.some(p => p.mean === null)) return
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+    windows.push({
+      startMinute: point.minute,
+      endMinute: (point.minute + WINDOW_MINUTES) % (24 * 60),
+      mean: average(points.map(p => p.mean!)),
+      lower: average(points.map(p => p.lower!)),
+      upper: average(points.map(p => p.upper!))
+    })
+  })
+  if (windows.length === 0) return { peak: null, trough: null }
+
+  const sorted = [...windows].sort((a, b) => a.mean - b.mean)
+  return { peak: sorted[sorted.length - 1], trough: sorted[0] }
+}
@@ -0,0 +1,23 @@
+import { energyLevels } from '@/lib/logs/constants'
+
+const toRgb = (hex: string) => [1, 3, 5].map(start => parseInt(hex.slice(start, start + 2), 16))
+
+// Blend between the energy levels' own colors, so an average of 3.5 sits between Steady and Energized
+export const getEnergyColor = (energy: number) => {
+  const clamped = Math.min(Math.max(energy, 1), energyLevels.length)
+  const lower = Math.floor(clamped)
+  const upper = Math.ceil(clamped)
+  const from = toRgb(energyLevels[lower - 1].color)
+  const to = toRgb(energyLevels[upper - 1].color)
+  const [r, g, b] = from.map((channel, i) => Math.round(channel + (to[i] - channel) * (clamped - lower)))
+  return `rgb(${r}, ${g}, ${b})`
+}
+
+export const formatEnergy = (energy: number) => energy.toFixed(1)
+
+// Attention has no colors of its own in the tracker; these run light to dark, scattered to hyperfocused
+export const ATTENTION_COLORS: Record<string, string> = {
+  scattered: '#fbbf24',
+  focused: '#818cf8',
+  hyperfocused: '#4f46e5'
+}
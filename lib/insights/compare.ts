@@ -0,0 +1,114 @@
+import { attentionStates } from '@/lib/logs/constants'
+import { addDays, getLocalDateKey, groupLogsByDay, parseLocalDateKey } from '@/lib/logs/days'
+import type { LogEntry } from '@/lib/logs/types'
+import { getWeekStart } from './trends'
+import { getTopWords } from './words'
+import { compareDistributions, compareMeans, getSignificanceHint, type SignificanceHint } from './stats'
+
+// Two date ranges side by side, e.g. before and after a change in routine
+
+// Local date keys, both ends included
+export interface DateRange {
+  from: string
+  to: string
+}
+
+const TOP_WORDS = 8
+
+export interface PeriodSummary {
+  range: DateRange
+  days: number
+  entries: number
+  daysLogged: number
+  // Longest run of consecutive logged days inside the range
+  longestStreak: number
+  averageEnergy: number | null
+  energies: number[]
+  attention: Record<string, number>
+  topWords: { word: string; count: number }[]
+}
+
+export const getRangeLength = (range: DateRange) =>
+  Math.round((parseLocalDateKey(range.to).getTime() - parseLocalDateKey(range.from).getTime()) / 86400000) + 1
+
+export const summarizePeriod = (logs: LogEntry[], range: DateRange): PeriodSummary => {
+  const periodLogs = logs.filter(log => {
+    const day = getLocalDateKey(log.timestamp)
+    return day >= range.from && day <= range.to
+  })
+  const days = Array.from(groupLogsByDay(periodLogs).keys())
+
+  let longestStreak = 0
+  let streak = 0
+  days.forEach((day, index) => {
+    streak = index > 0 && addDays(days[index - 1], 1) === day ? streak + 1 : 1
+    longestStreak = Math.max(longestStreak, streak)
+  })
+
+  const energies = periodLogs.map(log => log.energy)
+  return {
+    range,
+    days: getRangeLength(range),
+    entries: periodLogs.length,
+    daysLogged: days.length,
+    longestStreak,
+    averageEnergy: energies.length > 0 ? energies.reduce((sum, energy) => sum + energy, 0) / energies.length : null,
+    energies,
+    attention: Object.fromEntries(attentionStates.map(state => [
+      state.value,
+      periodLogs.filter(log => log.attention === state.value).length
+    ])),
+    topWords: getTopWords(periodLogs.map(log => log.note), TOP_WORDS)
+  }
+}
+
+export interface PeriodComparison {
+  a: PeriodSummary
+  b: PeriodSummary
+  energy: SignificanceHint
+  attention: SignificanceHint
+}
+
+export const comparePeriods = (logs: LogEntry[], a: DateRange, b: DateRange): PeriodComparison => {
+  const summaryA = summarizePeriod(logs, a)
+  const summaryB = summarizePeriod(logs, b)
+  const attentionCounts = (summary: PeriodSummary) => attentionStates.map(state => summary.attention[state.value] ?? 0)
+  return {
+    a: summaryA,
+    b: summaryB,
+    energy: getSignificanceHint(compareMeans(summaryA.energies, summaryB.energies)),
+    attention: getSignificanceHint(compareDistributions(attentionCounts(summaryA), attentionCounts(summaryB)))
+  }
+}
+
+export interface ComparisonPreset {
+  label: string
+  // [earlier, later]
+  getRanges: (today: string) => [DateRange, DateRange]
+}
+
+const monthStart = (day: string) => `${day.slice(0, 8)}01`
+
+export const COMPARISON_PRESETS: ComparisonPreset[] = [
+  {
+    label: 'Week vs last week',
+    getRanges: today => {
+      const week = getWeekStart(today)
+      return [{ from: addDays(week, -7), to: addDays(week, -1) }, { from: week, to: today }]
+    }
+  },
+  {
+    label: 'Month vs last month',
+    getRanges: today => {
+      const month = monthStart(today)
+      return [{ from: monthStart(addDays(month, -1)), to: addDays(month, -1) }, { from: month, to: today }]
+    }
+  },
+  {
+    label: '30 days vs the 30 before',
+    getRanges: today => [
+      { from: addDays(today, -59), to: addDays(today, -30) },
+      { from: addDays(today, -29), to: today }
+    ]
+  }
+]
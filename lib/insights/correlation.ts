@@ -0,0 +1,102 @@
+import { energyLevels, attentionStates } from '@/lib/logs/constants'
+import { groupLogsByDay } from '@/lib/logs/days'
+import type { LogEntry } from '@/lib/logs/types'
+
+// How energy and attention move together, and how one entry's state leads into the next
+
+const ATTENTION_RANKS: Record<string, number> = Object.fromEntries(
+  attentionStates.map((state, index) => [state.value, index])
+)
+
+export interface MatrixRow {
+  // Energy level or attention state value the row is about
+  key: string
+  total: number
+  // Entries (or transitions) per column key
+  counts: Record<string, number>
+}
+
+export interface JointDistribution {
+  rows: MatrixRow[] // one per energy level, lowest first
+  total: number
+  // Pearson correlation between energy and attention ranked scattered < focused < hyperfocused;
+  // null when there is too little variation to compute one
+  correlation: number | null
+}
+
+const countBy = (keys: string[], values: string[]) =>
+  Object.fromEntries(keys.map(key => [key, values.filter(value => value === key).length]))
+
+const attentionKeys = attentionStates.map(state => state.value)
+const energyKeys = energyLevels.map(level => String(level.value))
+
+const getCorrelation = (pairs: [number, number][]) => {
+  if (pairs.length < 2) return null
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  pairs.forEach(([x, y]) => {
+    covariance += (x - meanX) * (y - meanY)
+    varianceX += (x - meanX) ** 2
+    varianceY += (y - meanY) ** 2
+  })
+  if (varianceX === 0 || varianceY === 0) return null
+  return covariance / Math.sqrt(varianceX * varianceY)
+}
+
+export const getJointDistribution = (logs: LogEntry[]): JointDistribution => {
+  const known = logs.filter(log => log.attention in ATTENTION_RANKS)
+  return {
+    rows: energyLevels.map(level => {
+      const levelLogs = known.filter(log => log.energy === level.value)
+      return {
+        key: String(level.value),
+        total: levelLogs.length,
+        counts: countBy(attentionKeys, levelLogs.map(log => log.attention))
+      }
+    }),
+    total: known.length,
+    correlation: getCorrelation(known.map(log => [log.energy, ATTENTION_RANKS[log.attention]]))
+  }
+}
+
+export type TransitionDimension = 'attention' | 'energy'
+
+export interface TransitionMatrix {
+  keys: string[]
+  rows: MatrixRow[] // "from" states down, "to" states across
+  total: number
+}
+
+// Pairs of consecutive entries on the same local day. The last entry of a day doesn't lead into
+// the next morning's, since sleep resets both.
+export const getTransitionMatrix = (logs: LogEntry[], dimension: TransitionDimension): TransitionMatrix => {
+  const keys = dimension === 'attention' ? attentionKeys : energyKeys
+  const stateOf = (log: LogEntry) => dimension === 'attention' ? log.attention : String(log.energy)
+
+  const pairs: [string, string][] = []
+  groupLogsByDay(logs).forEach(dayLogs => {
+    for (let i = 1; i < dayLogs.length; i++) {
+      pairs.push([stateOf(dayLogs[i - 1]), stateOf(dayLogs[i])])
+    }
+  })
+  const counted = pairs.filter(([from, to]) => keys.includes(from) && keys.includes(to))
+
+  return {
+    keys,
+    rows: keys.map(key => {
+      const next = counted.filter(([from]) => from === key).map(([, to]) => to)
+      return { key, total: next.length, counts: countBy(keys, next) }
+    }),
+    total: counted.length
+  }
+}
+
+export const describeCorrelation = (correlation: number) => {
+  const strength = Math.abs(correlation)
+  if (strength < 0.1) return 'no clear link'
+  const size = strength < 0.3 ? 'weak' : strength < 0.5 ? 'moderate' : 'strong'
+  return `${size} ${correlation > 0 ? 'positive' : 'negative'} link`
+}
@@ -0,0 +1,94 @@
+import { attentionStates } from '@/lib/logs/constants'
+import type { LogEntry } from '@/lib/logs/types'
+import { MIN_SAMPLE_SIZE } from './patterns'
+import { compareMeans, getSignificanceHint, type SignificanceHint } from './stats'
+import { getNoteWords } from './words'
+
+// What people were doing, from their notes, and how entries mentioning it differ from the rest
+
+export interface AttentionMix {
+  // Share of entries per attention state, 0-1
+  shares: Record<string, number>
+}
+
+export interface KeywordImpact {
+  word: string
+  // Entries whose note mentions the word, newest first
+  logs: LogEntry[]
+  averageEnergy: number
+  // Average energy minus the baseline's
+  energyEffect: number
+  // Share of hyperfocused entries minus the baseline's, in percentage points
+  hyperfocusEffect: number
+  attention: AttentionMix
+  // Whether the energy difference from entries without the word is likely more than chance
+  hint: SignificanceHint
+}
+
+export interface KeywordAnalysis {
+  baseline: {
+    entries: number
+    averageEnergy: number
+    attention: AttentionMix
+  }
+  keywords: KeywordImpact[]
+}
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+const getAttentionMix = (logs: LogEntry[]): AttentionMix => ({
+  shares: Object.fromEntries(attentionStates.map(state => [
+    state.value,
+    logs.filter(log => log.attention === state.value).length / logs.length
+  ]))
+})
+
+// The baseline is every entry, so effects read as "compared with a typical entry". Only words in at
+// least MIN_SAMPLE_SIZE entries are kept, and not words in every entry, which leave nothing to compare.
+export const analyzeKeywords = (logs: LogEntry[]): KeywordAnalysis | null => {
+  if (logs.length === 0) return null
+  const baseline = {
+    entries: logs.length,
+    averageEnergy: average(logs.map(log => log.energy)),
+    attention: getAttentionMix(logs)
+  }
+
+  const logsByWord = new Map<string, LogEntry[]>()
+  const sorted = [...logs].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+  sorted.forEach(log => {
+    getNoteWords(log.note).forEach(word => logsByWord.set(word, [...(logsByWord.get(word) ?? []), log]))
+  })
+
+  const keywords: KeywordImpact[] = []
+  logsByWord.forEach((wordLogs, word) => {
+    if (wordLogs.length < MIN_SAMPLE_SIZE || wordLogs.length === logs.length) return
+    const ids = new Set(wordLogs.map(log => log.id))
+    const otherEnergies = logs.filter(log => !ids.has(log.id)).map(log => log.energy)
+    const attention = getAttentionMix(wordLogs)
+    const averageEnergy = average(wordLogs.map(log => log.energy))
+    keywords.push({
+      word,
+      logs: wordLogs,
+      averageEnergy,
+      energyEffect: averageEnergy - baseline.averageEnergy,
+      hyperfocusEffect: ((attention.shares.hyperfocused ?? 0) - (baseline.attention.shares.hyperfocused ?? 0)) * 100,
+      attention,
+      hint: getSignificanceHint(compareMeans(wordLogs.map(log => log.energy), otherEnergies))
+    })
+  })
+
+  return { baseline, keywords }
+}
+
+export type KeywordSort = 'energy' | 'hyperfocus' | 'mentions'
+
+// Largest effects first in either direction; ties go to the more often mentioned word
+export const sortKeywords = (keywords: KeywordImpact[], sort: KeywordSort) =>
+  [...keywords].sort((a, b) => {
+    const difference = sort === 'energy'
+      ? Math.abs(b.energyEffect) - Math.abs(a.energyEffect)
+      : sort === 'hyperfocus'
+        ? Math.abs(b.hyperfocusEffect) - Math.abs(a.hyperfocusEffect)
+        : 0
+    return difference || b.logs.length - a.logs.length || a.word.localeCompare(b.word)
+  })
@@ -0,0 +1,12 @@
+import { energyLevels, attentionStates } from '@/lib/logs/constants'
+
+// Chart labels for an energy level or attention state, falling back to the raw value
+export const formatEnergyLevel = (value: string | number) => {
+  const level = energyLevels.find(l => l.value === Number(value))
+  return level ? `${level.icon} ${level.label}` : String(value)
+}
+
+export const formatAttentionState = (value: string) => {
+  const state = attentionStates.find(s => s.value === value)
+  return state ? `${state.emoji} ${state.label}` : value
+}
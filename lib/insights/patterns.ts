@@ -0,0 +1,106 @@
+import { attentionStates } from '@/lib/logs/constants'
+import { getLocalDateKey } from '@/lib/logs/days'
+import type { LogEntry } from '@/lib/logs/types'
+
+// When in the week and day energy and attention tend to land. Everything is bucketed by the
+// browser's local time, so an entry logged at 9am counts as 9am wherever it was logged from.
+
+// Fewer entries than this in a bucket is shown, but not treated as a pattern
+export const MIN_SAMPLE_SIZE = 3
+// Below this many entries overall, the whole page is flagged as early days
+export const MIN_ENTRIES_FOR_PATTERNS = 20
+
+// Monday first
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+export const getWeekdayIndex = (timestamp: string | Date) => (new Date(timestamp).getDay() + 6) % 7
+
+export const TIME_SLOTS = [
+  { id: 'night', label: 'Night', startHour: 0, endHour: 6 },
+  { id: 'morning', label: 'Morning', startHour: 6, endHour: 12 },
+  { id: 'afternoon', label: 'Afternoon', startHour: 12, endHour: 18 },
+  { id: 'evening', label: 'Evening', startHour: 18, endHour: 24 }
+]
+
+export const formatHour = (hour: number) =>
+  new Date(2000, 0, 1, hour).toLocaleTimeString('en-US', { hour: 'numeric' })
+
+export interface EnergyCell {
+  count: number
+  // null when the bucket has no entries
+  average: number | null
+}
+
+const toCell = (energies: number[]): EnergyCell => ({
+  count: energies.length,
+  average: energies.length > 0 ? energies.reduce((sum, energy) => sum + energy, 0) / energies.length : null
+})
+
+export interface EnergyHeatmap {
+  // cells[weekday][hour]
+  cells: EnergyCell[][]
+  byWeekday: EnergyCell[]
+  maxCount: number
+}
+
+export const buildEnergyHeatmap = (logs: LogEntry[]): EnergyHeatmap => {
+  const energies: number[][][] = WEEKDAYS.map(() => Array.from({ length: 24 }, () => []))
+  logs.forEach(log => {
+    energies[getWeekdayIndex(log.timestamp)][new Date(log.timestamp).getHours()].push(log.energy)
+  })
+
+  const cells = energies.map(row => row.map(toCell))
+  return {
+    cells,
+    byWeekday: energies.map(row => toCell(row.flat())),
+    maxCount: Math.max(0, ...cells.flat().map(cell => cell.count))
+  }
+}
+
+export interface SlotAttention {
+  id: string
+  label: string
+  startHour: number
+  endHour: number
+  total: number
+  // Entries per attention state value
+  counts: Record<string, number>
+}
+
+export const getAttentionBySlot = (logs: LogEntry[]): SlotAttention[] =>
+  TIME_SLOTS.map(slot => {
+    const slotLogs = logs.filter(log => {
+      const hour = new Date(log.timestamp).getHours()
+      return hour >= slot.startHour && hour < slot.endHour
+    })
+    return {
+      ...slot,
+      total: slotLogs.length,
+      counts: Object.fromEntries(attentionStates.map(state => [
+        state.value,
+        slotLogs.filter(log => log.attention === state.value).length
+      ]))
+    }
+  })
+
+export interface EntryCounts {
+  entries: number
+  days: number
+  firstDay: string | null
+  lastDay: string | null
+  // Across the days that have at least one entry
+  perLoggedDay: number
+  averageEnergy: number | null
+}
+
+export const getEntryCounts = (logs: LogEntry[]): EntryCounts => {
+  const days = Array.from(new Set(logs.map(log => getLocalDateKey(log.timestamp)))).sort()
+  return {
+    entries: logs.length,
+    days: days.length,
+    firstDay: days[0] ?? null,
+    lastDay: days[days.length - 1] ?? null,
+    perLoggedDay: days.length > 0 ? logs.length / days.length : 0,
+    averageEnergy: toCell(logs.map(log => log.energy)).average
+  }
+}
@@ -0,0 +1,149 @@
+import { MIN_SAMPLE_SIZE } from './patterns'
+
+// Just enough statistics to say whether a difference between two sets of entries is likely to be
+// more than chance. The p-values come from the usual t and chi-square distributions; the helpers
+// below are the standard numerical recipes for them.
+
+const EPSILON = 3e-14
+const TINY = 1e-300
+const MAX_ITERATIONS = 200
+
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7
+]
+
+const logGamma = (z: number): number => {
+  if (z < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z)
+  const shifted = z - 1
+  let sum = LANCZOS[0]
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (shifted + i)
+  const t = shifted + LANCZOS.length - 1.5
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum)
+}
+
+const guard = (value: number) => Math.abs(value) < TINY ? TINY : value
+
+const betaContinuedFraction = (a: number, b: number, x: number) => {
+  let c = 1
+  let d = 1 / guard(1 - ((a + b) * x) / (a + 1))
+  let result = d
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const even = (m * (b - m) * x) / ((a - 1 + 2 * m) * (a + 2 * m))
+    d = 1 / guard(1 + even * d)
+    c = guard(1 + even / c)
+    result *= d * c
+    const odd = (-(a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 1 + 2 * m))
+    d = 1 / guard(1 + odd * d)
+    c = guard(1 + odd / c)
+    const delta = d * c
+    result *= delta
+    if (Math.abs(delta - 1) < EPSILON) break
+  }
+  return result
+}
+
+const regularizedBeta = (a: number, b: number, x: number): number => {
+  if (x <= 0) return 0
+  if (x >= 1) return 1
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x))
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b
+}
+
+// Lower regularized gamma function P(a, x)
+const regularizedGamma = (a: number, x: number): number => {
+  if (x <= 0) return 0
+  const front = Math.exp(-x + a * Math.log(x) - logGamma(a))
+  if (x < a + 1) {
+    let term = 1 / a
+    let sum = term
+    for (let n = 1; n <= MAX_ITERATIONS; n++) {
+      term *= x / (a + n)
+      sum += term
+      if (Math.abs(term) < Math.abs(sum) * EPSILON) break
+    }
+    return sum * front
+  }
+
+  let b = x + 1 - a
+  let c = 1 / TINY
+  let d = 1 / b
+  let result = d
+  for (let i = 1; i <= MAX_ITERATIONS; i++) {
+    const an = -i * (i - a)
+    b += 2
+    d = 1 / guard(an * d + b)
+    c = guard(b + an / c)
+    const delta = d * c
+    result *= delta
+    if (Math.abs(delta - 1) < EPSILON) break
+  }
+  return 1 - front * result
+}
+
+export interface TestResult {
+  statistic: number
+  pValue: number
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+const variance = (values: number[]) => {
+  const average = mean(values)
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1)
+}
+
+// Welch's t-test: are the two groups' averages different? null when either group is too small.
+export const compareMeans = (a: number[], b: number[]): TestResult | null => {
+  if (a.length < MIN_SAMPLE_SIZE || b.length < MIN_SAMPLE_SIZE) return null
+  const errorA = variance(a) / a.length
+  const errorB = variance(b) / b.length
+  const difference = mean(a) - mean(b)
+  // Every entry in each group has the same energy
+  if (errorA + errorB === 0) {
+    return difference === 0 ? { statistic: 0, pValue: 1 } : { statistic: Math.sign(difference) * Infinity, pValue: 0 }
+  }
+
+  const statistic = difference / Math.sqrt(errorA + errorB)
+  const degrees = (errorA + errorB) ** 2 / (errorA ** 2 / (a.length - 1) + errorB ** 2 / (b.length - 1))
+  return { statistic, pValue: regularizedBeta(degrees / 2, 0.5, degrees / (degrees + statistic ** 2)) }
+}
+
+// Chi-square test of whether two groups split across categories the same way. Categories empty in
+// both groups are ignored; null when the groups are too small for the test to hold up.
+export const compareDistributions = (a: number[], b: number[]): TestResult | null => {
+  const columns = a.map((count, i) => [count, b[i]]).filter(([countA, countB]) => countA + countB > 0)
+  const totalA = columns.reduce((sum, [count]) => sum + count, 0)
+  const totalB = columns.reduce((sum, [, count]) => sum + count, 0)
+  const total = totalA + totalB
+  if (columns.length < 2 || totalA < MIN_SAMPLE_SIZE || totalB < MIN_SAMPLE_SIZE) return null
+
+  let statistic = 0
+  for (const [countA, countB] of columns) {
+    const expectedA = (totalA * (countA + countB)) / total
+    const expectedB = (totalB * (countA + countB)) / total
+    // The usual rule of thumb: the approximation breaks down with small expected counts
+    if (expectedA < 1 || expectedB < 1) return null
+    statistic += (countA - expectedA) ** 2 / expectedA + (countB - expectedB) ** 2 / expectedB
+  }
+  return { statistic, pValue: 1 - regularizedGamma((columns.length - 1) / 2, statistic / 2) }
+}
+
+export type SignificanceHint = 'likely' | 'possible' | 'chance' | 'too-few'
+
+export const getSignificanceHint = (result: TestResult | null): SignificanceHint => {
+  if (!result) return 'too-few'
+  if (result.pValue < 0.01) return 'likely'
+  if (result.pValue < 0.05) return 'possible'
+  return 'chance'
+}
+
+export const SIGNIFICANCE_LABELS: Record<SignificanceHint, string> = {
+  likely: 'Likely a real difference',
+  possible: 'Possibly a real difference',
+  chance: 'Could easily be chance',
+  'too-few': 'Too few entries to tell'
+}
@@ -0,0 +1,122 @@
+import { attentionStates } from '@/lib/logs/constants'
+import { addDays, getLocalDateKey, groupLogsByDay, parseLocalDateKey } from '@/lib/logs/days'
+import type { LogEntry } from '@/lib/logs/types'
+import { MIN_SAMPLE_SIZE, getWeekdayIndex } from './patterns'
+
+// Energy and attention over the calendar: per day, per week, smoothed, and days that stand out
+
+export interface TrendPoint {
+  // Date key of the day, or of the Monday that starts the week
+  day: string
+  count: number
+  // null on days (or weeks) without entries
+  average: number | null
+  attention: Record<string, number>
+}
+
+const toPoint = (day: string, logs: LogEntry[]): TrendPoint => ({
+  day,
+  count: logs.length,
+  average: logs.length > 0 ? logs.reduce((sum, log) => sum + log.energy, 0) / logs.length : null,
+  attention: Object.fromEntries(attentionStates.map(state => [
+    state.value,
+    logs.filter(log => log.attention === state.value).length
+  ]))
+})
+
+// Every calendar day from the first entry to the last, empty days included so gaps stay visible
+export const getDailyTrend = (logs: LogEntry[]): TrendPoint[] => {
+  const logsByDay = groupLogsByDay(logs)
+  const days = Array.from(logsByDay.keys())
+  if (days.length === 0) return []
+
+  const points: TrendPoint[] = []
+  for (let day = days[0]; day <= days[days.length - 1]; day = addDays(day, 1)) {
+    points.push(toPoint(day, logsByDay.get(day) ?? []))
+  }
+  return points
+}
+
+export const getWeekStart = (day: string) => addDays(day, -getWeekdayIndex(parseLocalDateKey(day)))
+
+export const getWeeklyTrend = (logs: LogEntry[]): TrendPoint[] => {
+  const weeks = new Map<string, LogEntry[]>()
+  groupLogsByDay(logs).forEach((dayLogs, day) => {
+    const week = getWeekStart(day)
+    weeks.set(week, [...(weeks.get(week) ?? []), ...dayLogs])
+  })
+  const keys = Array.from(weeks.keys())
+  if (keys.length === 0) return []
+
+  const points: TrendPoint[] = []
+  for (let week = keys[0]; week <= keys[keys.length - 1]; week = addDays(week, 7)) {
+    points.push(toPoint(week, weeks.get(week) ?? []))
+  }
+  return points
+}
+
+// Average of every entry in the trailing window of calendar days ending on each day. Entries,
+// not days, are averaged, so a day with one entry doesn't weigh as much as a day with ten.
+// null until the window holds enough entries to mean something.
+export const getMovingAverage = (daily: TrendPoint[], windowDays: number): (number | null)[] => {
+  let count = 0
+  let sum = 0
+  return daily.map((point, index) => {
+    count += point.count
+    sum += (point.average ?? 0) * point.count
+    const leaving = daily[index - windowDays]
+    if (leaving) {
+      count -= leaving.count
+      sum -= (leaving.average ?? 0) * leaving.count
+    }
+    return count >= MIN_SAMPLE_SIZE ? sum / count : null
+  })
+}
+
+// Days compared with the logged days in the month before them
+const BASELINE_DAYS = 30
+const MIN_BASELINE_DAYS = 7
+// A day is flagged when it sits this many standard deviations from the baseline...
+const ANOMALY_DEVIATIONS = 1.5
+// ...and at least this far in energy points, so a very steady baseline doesn't flag small wobbles
+const MIN_ANOMALY_DIFFERENCE = 0.75
+
+export interface TrendAnomaly {
+  day: string
+  kind: 'low' | 'high'
+  average: number
+  baseline: number
+  count: number
+}
+
+export const findAnomalies = (daily: TrendPoint[]): TrendAnomaly[] => {
+  const anomalies: TrendAnomaly[] = []
+  daily.forEach((point, index) => {
+    if (point.average === null) return
+    const baseline = daily
+      .slice(Math.max(0, index - BASELINE_DAYS), index)
+      .flatMap(previous => previous.average === null ? [] : [previous.average])
+    if (baseline.length < MIN_BASELINE_DAYS) return
+
+    const mean = baseline.reduce((sum, value) => sum + value, 0) / baseline.length
+    const deviation = Math.sqrt(baseline.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (baseline.length - 1))
+    const difference = point.average - mean
+    if (Math.abs(difference) >= Math.max(ANOMALY_DEVIATIONS * deviation, MIN_ANOMALY_DIFFERENCE)) {
+      anomalies.push({
+        day: point.day,
+        kind: difference < 0 ? 'low' : 'high',
+        average: point.average,
+        baseline: mean,
+        count: point.count
+      })
+    }
+  })
+  return anomalies
+}
+
+// The last `days` days of a daily trend, ending today
+export const getRecentDays = <T extends { day: string }>(points: T[], days: number | null) => {
+  if (days === null) return points
+  const since = addDays(getLocalDateKey(new Date()), -(days - 1))
+  return points.filter(point => point.day >= since)
+}
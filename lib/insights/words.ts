@@ -0,0 +1,35 @@
+// Words from notes, for counting what people write about. Notes are short, so each word counts
+// once per note, and filler words that say nothing about the day are dropped.
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing',
+  'done', 'for', 'from', 'get', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here',
+  'him', 'his', 'how', 'i', "i'm", 'if', 'in', 'into', 'is', 'it', "it's", 'its', 'just', 'me',
+  'more', 'my', 'no', 'not', 'now', 'of', 'off', 'on', 'one', 'only', 'or', 'our', 'out', 'over',
+  'really', 'she', 'so', 'some', 'still', 'than', 'that', 'the', 'their', 'them', 'then',
+  'there', 'they', 'this', 'to', 'too', 'up', 'us', 'very', 'was', 'we', 'were', 'what', 'when',
+  'which', 'while', 'who', 'will', 'with', 'would', 'you', 'your'
+])
+
+const MIN_WORD_LENGTH = 3
+
+// Distinct words in a note, lower-cased, in the order they first appear
+export const getNoteWords = (note: string | null): string[] => {
+  if (!note) return []
+  const words = note
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}'#-]+/u)
+    .map(word => word.replace(/^['-]+|['-]+$/g, ''))
+    .filter(word => word.length >= MIN_WORD_LENGTH && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+  return Array.from(new Set(words))
+}
+
+// Most frequent words across notes, by how many notes mention them
+export const getTopWords = (notes: (string | null)[], limit: number): { word: string; count: number }[] => {
+  const counts = new Map<string, number>()
+  notes.forEach(note => getNoteWords(note).forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1)))
+  return Array.from(counts, ([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .slice(0, limit)
+}
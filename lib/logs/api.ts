@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server'
+import type { ValidationIssue } from './validation'
+
+// Shared response shapes for the /api/logs route handlers. docs/api.md documents each version;
+// bump this when a response changes in a way existing scripts would notice.
+export const LOGS_API_VERSION = 1
+
+export type ApiErrorCode =
+  | 'not_authenticated'
+  | 'insufficient_scope'
+  | 'validation_failed'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'internal_error'
+
+export interface ApiErrorBody {
+  version: typeof LOGS_API_VERSION
+  error: string
+  code: ApiErrorCode
+  issues?: ValidationIssue[]
+}
+
+export const apiJson = (body: Record<string, unknown>, init?: ResponseInit) =>
+  NextResponse.json({ version: LOGS_API_VERSION, ...body }, init)
+
+export const apiError = (
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  extra?: Omit<Record<string, unknown>, 'version' | 'error' | 'code'>
+) => apiJson({ error: message, code, ...extra }, { status })
+
+export const validationError = (issues: ValidationIssue[]) =>
+  apiError(400, 'validation_failed', issues[0]?.message || 'Invalid request', { issues })
+
+export const DEFAULT_PAGE_SIZE = 100
+export const MAX_PAGE_SIZE = 500
+export const MAX_IMPORT_SIZE = 500
+
+export type DeletedFilter = 'exclude' | 'include' | 'only'
+
+export interface LogPosition {
+  timestamp: string
+  id: string
+}
+
+export interface ListLogsOptions {
+  from?: string
+  to?: string
+  deleted: DeletedFilter
+  limit: number
+  after?: LogPosition
+}
+
+// Cursors are opaque to clients: the position of the last entry on the previous page
+export const encodeCursor = (position: LogPosition) =>
+  Buffer.from(JSON.stringify([position.timestamp, position.id])).toString('base64url')
+
+const decodeCursor = (cursor: string): LogPosition | null => {
+  try {
+    const [timestamp, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    if (typeof timestamp !== 'string' || typeof id !== 'string' || Number.isNaN(new Date(timestamp).getTime())) {
+      return null
+    }
+    return { timestamp: new Date(timestamp).toISOString(), id }
+  } catch {
+    return null
+  }
+}
+
+// Read the list query string: from, to, deleted, limit and cursor
+export const parseListQuery = (
+  params: URLSearchParams
+): { value: ListLogsOptions; issues?: undefined } | { value?: undefined; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = []
+  const options: ListLogsOptions = { deleted: 'exclude', limit: DEFAULT_PAGE_SIZE }
+
+  for (const field of ['from', 'to'] as const) {
+    const value = params.get(field)
+    if (value === null) continue
+    if (Number.isNaN(new Date(value).getTime())) {
+      issues.push({ field, code: 'invalid_type', message: `${field} must be an ISO date string` })
+    } else {
+      options[field] = new Date(value).toISOString()
+    }
+  }
+
+  const deleted = params.get('deleted')
+  if (deleted !== null) {
+    if (deleted === 'exclude' || deleted === 'include' || deleted === 'only') {
+      options.deleted = deleted
+    } else {
+      issues.push({ field: 'deleted', code: 'invalid_value', message: 'deleted must be one of exclude, include, only' })
+    }
+  }
+
+  const limit = params.get('limit')
+  if (limit !== null) {
+    const value = Number(limit)
+    if (!Number.isInteger(value) || value < 1 || value > MAX_PAGE_SIZE) {
+      issues.push({ field: 'limit', code: 'invalid_value', message: `limit must be an integer from 1 to ${MAX_PAGE_SIZE}` })
+    } else {
+      options.limit = value
+    }
+  }
+
+  const cursor = params.get('cursor')
+  if (cursor !== null) {
+    const after = decodeCursor(cursor)
+    if (after) {
+      options.after = after
+    } else {
+      issues.push({ field: 'cursor', code: 'invalid_value', message: 'cursor is not valid' })
+    }
+  }
+
+  return issues.length > 0 ? { issues } : { value: options }
+}
@@ -0,0 +1,65 @@
+import type { NextRequest, NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient, createAnonClient, createClientForUser } from '@/lib/supabase/server'
+import { authenticateToken, isApiToken } from '@/lib/tokens/server'
+import type { ApiTokenScope } from '@/lib/tokens/types'
+import { apiError } from './api'
+
+type AuthResult =
+  | { supabase: SupabaseClient; userId: string; response?: undefined }
+  | { supabase?: undefined; userId?: undefined; response: NextResponse }
+
+// The app signs in with its session cookie; scripts and devices send a personal API token
+// as a bearer token. Session cookies have full access; tokens only what their scope allows.
+export async function authenticateApiRequest(request: NextRequest, scope: ApiTokenScope): Promise<AuthResult> {
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)\s*$/i)?.[1]
+
+  if (bearer) {
+    if (!isApiToken(bearer)) {
+      return { response: apiError(401, 'not_authenticated', 'Invalid API token') }
+    }
+    try {
+      const token = await authenticateToken(createAnonClient(), bearer)
+      if (!token) {
+        return { response: apiError(401, 'not_authenticated', 'Invalid or revoked API token') }
+      }
+      if (scope === 'write' && token.scope !== 'write') {
+        return { response: apiError(403, 'insufficient_scope', 'This API token is read-only') }
+      }
+      return { supabase: createClientForUser(token.userId), userId: token.userId }
+    } catch (error) {
+      console.error('Error checking API token:', error)
+      return { response: apiError(500, 'internal_error', 'Could not check API token') }
+    }
+  }
+
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return { response: apiError(401, 'not_authenticated', 'Not authenticated') }
+  }
+  return { supabase, userId: user.id }
+}
+
+// Calendar apps subscribe to a URL and can't send headers, so feeds take the token as ?token=.
+// URLs end up in app settings and sync logs, so only read-only tokens are accepted there.
+export async function authenticateFeedRequest(request: NextRequest): Promise<AuthResult> {
+  const token = request.nextUrl.searchParams.get('token')
+  if (!token || !isApiToken(token)) {
+    return { response: apiError(401, 'not_authenticated', 'Add a read-only API token as ?token=') }
+  }
+
+  try {
+    const match = await authenticateToken(createAnonClient(), token)
+    if (!match) {
+      return { response: apiError(401, 'not_authenticated', 'Invalid or revoked API token') }
+    }
+    if (match.scope !== 'read') {
+      return { response: apiError(403, 'insufficient_scope', 'Feeds only accept read-only API tokens') }
+    }
+    return { supabase: createClientForUser(match.userId), userId: match.userId }
+  } catch (error) {
+    console.error('Error checking API token:', error)
+    return { response: apiError(500, 'internal_error', 'Could not check API token') }
+  }
+}
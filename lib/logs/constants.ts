@@ -0,0 +1,17 @@
+export const MAX_NOTE_LENGTH = 100
+
+// Energy levels with past tense labels
+export const energyLevels = [
+  { value: 1, label: 'Exhausted', icon: '🪫', color: '#ef4444' },
+  { value: 2, label: 'Drained', icon: '☕', color: '#f97316' },
+  { value: 3, label: 'Steady', icon: '🔋', color: '#eab308' },
+  { value: 4, label: 'Energized', icon: '✨', color: '#84cc16' },
+  { value: 5, label: 'Peaked', icon: '🚀', color: '#22c55e' }
+]
+
+// Attention states with consistent tense
+export const attentionStates = [
+  { value: 'scattered', label: 'Scattered', emoji: '🌪️' },
+  { value: 'focused', label: 'Focused', emoji: '💡' },
+  { value: 'hyperfocused', label: 'Hyperfocused', emoji: '🎯' }
+]
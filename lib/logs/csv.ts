@@ -0,0 +1,142 @@
+import type { LogEntry } from './types'
+import { parseLogEntry, type ValidationIssue } from './validation'
+import { getLocalDateKey, getLocalTimeKey } from './days'
+import { isStorageImageRef } from '@/lib/images/refs'
+
+// Column order of exported files. Imports match columns by name, so extra or reordered columns
+// are fine; energy_label and local_time are for people reading the file and are ignored.
+export const CSV_COLUMNS = ['id', 'timestamp', 'local_time', 'energy', 'energy_label', 'attention', 'note', 'image_ref', 'deleted_at'] as const
+
+type CsvColumn = typeof CSV_COLUMNS[number]
+
+const REQUIRED_COLUMNS: CsvColumn[] = ['timestamp', 'energy', 'attention']
+
+// "2026-10-18 09:30" in the exporting device's time zone
+export const formatLocalTime = (timestamp: string) => `${getLocalDateKey(timestamp)} ${getLocalTimeKey(timestamp)}`
+
+// Quote a field only when it needs it (RFC 4180)
+const escapeField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+export const logsToCsv = (logs: LogEntry[]): string => {
+  const rows = logs.map(log => [
+    log.id,
+    log.timestamp,
+    formatLocalTime(log.timestamp),
+    String(log.energy),
+    log.energyLabel,
+    log.attention,
+    log.note ?? '',
+    log.imageRef ?? '',
+    log.deletedAt ?? ''
+  ])
+  return [[...CSV_COLUMNS], ...rows].map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n'
+}
+
+// Split CSV text into rows of fields, honouring quoted commas, quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  // Spreadsheet apps often save with a byte order mark
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines carry no entry
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+export interface CsvRowError {
+  // Row number in the file, counting the header as row 1
+  row: number
+  issues: ValidationIssue[]
+}
+
+export interface CsvParseResult {
+  logs: LogEntry[]
+  errors: CsvRowError[]
+}
+
+// Turn an exported (or hand-made) CSV back into entries, validating each row like the API does.
+// Screenshots can't travel in a CSV, so only references to the account's storage are kept.
+export const parseLogsCsv = (text: string): CsvParseResult => {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) {
+    return { logs: [], errors: [{ row: 1, issues: [{ field: null, code: 'required', message: 'The file is empty' }] }] }
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase())
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column))
+  if (missing.length > 0) {
+    return {
+      logs: [],
+      errors: [{
+        row: 1,
+        issues: missing.map(column => ({ field: column, code: 'required' as const, message: `Missing the ${column} column` }))
+      }]
+    }
+  }
+
+  const logs: LogEntry[] = []
+  const errors: CsvRowError[] = []
+  rows.forEach((cells, index) => {
+    const value = (column: CsvColumn) => {
+      const position = columns.indexOf(column)
+      return position === -1 ? '' : (cells[position] ?? '').trim()
+    }
+
+    const timestamp = value('timestamp')
+    const energy = value('energy')
+    const imageRef = value('image_ref')
+    const input: Record<string, unknown> = {
+      // Entries made by hand get the same kind of id the tracker gives new entries
+      id: value('id') || String(new Date(timestamp).getTime()),
+      timestamp,
+      energy: energy === '' ? energy : Number(energy),
+      attention: value('attention').toLowerCase(),
+      note: value('note') || null,
+      imageRef: imageRef && isStorageImageRef(imageRef) ? imageRef : null,
+      deletedAt: value('deleted_at') || null
+    }
+
+    const parsed = parseLogEntry(input)
+    if (parsed.error !== undefined) {
+      errors.push({ row: index + 2, issues: parsed.issues })
+    } else {
+      logs.push(parsed.value)
+    }
+  })
+
+  return { logs, errors }
+}
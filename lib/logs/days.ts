@@ -0,0 +1,41 @@
+import type { LogEntry } from './types'
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// "2026-10-18" for the local day an entry was logged on; sorts the same as the dates it names
+export const getLocalDateKey = (timestamp: string | Date) => {
+  const date = new Date(timestamp)
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+// "09:30" in local time
+export const getLocalTimeKey = (timestamp: string | Date) => {
+  const date = new Date(timestamp)
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+// Midnight at the start of a date key, local time
+export const parseLocalDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export const addDays = (key: string, days: number) => {
+  const date = parseLocalDateKey(key)
+  date.setDate(date.getDate() + days)
+  return getLocalDateKey(date)
+}
+
+// Entries grouped by local day, oldest day first and each day's entries in time order
+export const groupLogsByDay = (logs: LogEntry[]): Map<string, LogEntry[]> => {
+  const days = new Map<string, LogEntry[]>()
+  const sorted = [...logs].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+  sorted.forEach(log => {
+    const key = getLocalDateKey(log.timestamp)
+    days.set(key, [...(days.get(key) ?? []), log])
+  })
+  return days
+}
+
+// The tracker's History narrowed to one day, for links from insights
+export const getHistoryDayPath = (day: string) => `/?day=${day}`
@@ -0,0 +1,18 @@
+import type { LogEntry } from './types'
+
+type LogKey = Pick<LogEntry, 'id' | 'timestamp'>
+
+// An incoming entry is a duplicate when its id or its exact timestamp already exists
+export const findNewLogs = <T extends LogKey>(existing: LogKey[], incoming: T[]): T[] => {
+  const seenIds = new Set(existing.map(log => log.id))
+  const seenTimes = new Set(existing.map(log => new Date(log.timestamp).getTime()))
+
+  return incoming.filter(log => {
+    const time = new Date(log.timestamp).getTime()
+    if (seenIds.has(log.id) || seenTimes.has(time)) return false
+    // Also drop duplicates within the incoming batch itself
+    seenIds.add(log.id)
+    seenTimes.add(time)
+    return true
+  })
+}
@@ -0,0 +1,133 @@
+import { energyLevels, attentionStates } from './constants'
+import type { LogEntry } from './types'
+
+// iCalendar (RFC 5545) export: each entry is a short event, and runs of hyperfocused entries
+// become one focus block. Shared by the browser download and the subscription feed.
+
+const EVENT_MINUTES = 15
+// Hyperfocused entries further apart than this start a new block
+const MAX_BLOCK_GAP_MS = 3 * 60 * 60 * 1000
+
+const PRODUCT_ID = '-//TEA Tracker//Energy Log//EN'
+
+const formatDateTime = (time: number) =>
+  new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string) => {
+  const bytes = new TextEncoder().encode(line)
+  if (bytes.length <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const charBytes = new TextEncoder().encode(char).length
+    if (currentBytes + charBytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += charBytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+const describeEntry = (log: LogEntry) => {
+  const energy = energyLevels.find(level => level.value === log.energy)
+  const attention = attentionStates.find(state => state.value === log.attention)
+  return `${energy?.icon ?? ''} ${energy?.label ?? log.energyLabel} · ${attention?.emoji ?? ''} ${attention?.label ?? log.attention}`.trim()
+}
+
+interface CalendarEvent {
+  uid: string
+  start: number
+  end: number
+  summary: string
+  description: string
+}
+
+const toEntryEvent = (log: LogEntry): CalendarEvent => {
+  const start = new Date(log.timestamp).getTime()
+  return {
+    uid: `${log.id}@tea-tracker`,
+    start,
+    end: start + EVENT_MINUTES * 60 * 1000,
+    summary: describeEntry(log),
+    description: log.note ?? ''
+  }
+}
+
+// Time-ordered events; trashed entries are left out
+const buildCalendarEvents = (logs: LogEntry[]): CalendarEvent[] => {
+  const sorted = logs
+    .filter(log => !log.deletedAt)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+
+  const events: CalendarEvent[] = []
+  let block: LogEntry[] = []
+
+  const flushBlock = () => {
+    if (block.length === 0) return
+    if (block.length === 1) {
+      events.push(toEntryEvent(block[0]))
+    } else {
+      const start = new Date(block[0].timestamp).getTime()
+      const end = new Date(block[block.length - 1].timestamp).getTime() + EVENT_MINUTES * 60 * 1000
+      events.push({
+        uid: `focus-${block[0].id}@tea-tracker`,
+        start,
+        end,
+        summary: `🎯 Hyperfocus block (${block.length} entries)`,
+        description: block.map(log => `• ${describeEntry(log)}${log.note ? ` – ${log.note}` : ''}`).join('\n')
+      })
+    }
+    block = []
+  }
+
+  sorted.forEach(log => {
+    if (log.attention === 'hyperfocused') {
+      const previous = block[block.length - 1]
+      if (previous && new Date(log.timestamp).getTime() - new Date(previous.timestamp).getTime() > MAX_BLOCK_GAP_MS) {
+        flushBlock()
+      }
+      block.push(log)
+    } else {
+      flushBlock()
+      events.push(toEntryEvent(log))
+    }
+  })
+  flushBlock()
+
+  return events
+}
+
+export const logsToIcs = (logs: LogEntry[], calendarName = 'TEA Tracker') => {
+  const stamp = formatDateTime(Date.now())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...buildCalendarEvents(logs).flatMap(event => [
+      'BEGIN:VEVENT',
+      `UID:${escapeText(event.uid)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatDateTime(event.start)}`,
+      `DTEND:${formatDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ]),
+    'END:VCALENDAR'
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
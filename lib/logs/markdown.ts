@@ -0,0 +1,140 @@
+import { zip, strToU8, type Zippable } from 'fflate'
+import { energyLevels, attentionStates } from './constants'
+import { addDays, getLocalTimeKey, groupLogsByDay, parseLocalDateKey } from './days'
+import type { LogEntry } from './types'
+import { extensionFor, toSafePathSegment } from '@/lib/images/refs'
+
+// Daily notes for Obsidian and other Markdown journals: one YYYY-MM-DD.md per day with YAML
+// frontmatter and a table of the day's entries. Screenshots go in attachments/ beside them.
+
+const ATTACHMENTS_FOLDER = 'attachments'
+
+// What each exported day looked like, so an incremental export can skip days that haven't changed
+const EXPORT_STATE_KEY = 'tea-markdown-export'
+
+type ExportState = Record<string, string>
+
+export const readMarkdownExportState = (): ExportState =>
+  JSON.parse(localStorage.getItem(EXPORT_STATE_KEY) || '{}')
+
+export const saveMarkdownExportState = (state: ExportState) =>
+  localStorage.setItem(EXPORT_STATE_KEY, JSON.stringify({ ...readMarkdownExportState(), ...state }))
+
+export const clearMarkdownExportState = () => localStorage.removeItem(EXPORT_STATE_KEY)
+
+// Changes whenever an entry on the day is added, edited or removed
+const getDaySignature = (logs: LogEntry[]) => {
+  const text = logs.map(log => [log.id, log.timestamp, log.energy, log.attention, log.note, log.imageRef].join('\u0000')).join('\u0001')
+  let hash = 5381
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0
+  }
+  return `${logs.length}:${(hash >>> 0).toString(36)}`
+}
+
+// Consecutive logged days ending on each day
+const getDayStreaks = (days: string[]): Map<string, number> => {
+  const streaks = new Map<string, number>()
+  days.forEach(day => streaks.set(day, (streaks.get(addDays(day, -1)) ?? 0) + 1))
+  return streaks
+}
+
+// Keep a note on one table row
+const escapeCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')
+
+export const renderDailyNote = (day: string, logs: LogEntry[], streak: number, imagePaths: Map<string, string>) => {
+  const average = logs.reduce((sum, log) => sum + log.energy, 0) / logs.length
+  const attentionCounts = attentionStates.map(state => `  ${state.value}: ${logs.filter(log => log.attention === state.value).length}`)
+  const title = parseLocalDateKey(day).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric'
+  })
+
+  const rows = logs.map(log => {
+    const energy = energyLevels.find(level => level.value === log.energy)
+    const attention = attentionStates.find(state => state.value === log.attention)
+    const imagePath = imagePaths.get(log.id)
+    return `| ${[
+      getLocalTimeKey(log.timestamp),
+      `${energy?.icon ?? ''} ${energy?.label ?? log.energyLabel}`.trim(),
+      `${attention?.emoji ?? ''} ${attention?.label ?? log.attention}`.trim(),
+      log.note ? escapeCell(log.note) : '',
+      imagePath ? `![](${imagePath})` : ''
+    ].join(' | ')} |`
+  })
+
+  return [
+    '---',
+    `date: ${day}`,
+    `entries: ${logs.length}`,
+    `average_energy: ${Math.round(average * 10) / 10}`,
+    `min_energy: ${Math.min(...logs.map(log => log.energy))}`,
+    `max_energy: ${Math.max(...logs.map(log => log.energy))}`,
+    'attention:',
+    ...attentionCounts,
+    `streak_days: ${streak}`,
+    'tags: [tea-tracker]',
+    '---',
+    '',
+    `# ${title}`,
+    '',
+    '| Time | Energy | Attention | Note | Screenshot |',
+    '| --- | --- | --- | --- | --- |',
+    ...rows,
+    ''
+  ].join('\n')
+}
+
+interface DailyNotesOptions {
+  logs: LogEntry[]
+  // Only days that are new or changed since the last export on this device
+  incremental: boolean
+  loadImage: (log: LogEntry) => Promise<{ blob: Blob } | null>
+}
+
+export interface DailyNotesExport {
+  archive: Blob
+  days: string[]
+  // Pass to saveMarkdownExportState once the archive has been handed to the user
+  state: ExportState
+}
+
+// Returns null when there is nothing (new) to export. Trashed entries are left out.
+export async function createDailyNotesArchive({ logs, incremental, loadImage }: DailyNotesOptions): Promise<DailyNotesExport | null> {
+  const logsByDay = groupLogsByDay(logs.filter(log => !log.deletedAt))
+  const streaks = getDayStreaks(Array.from(logsByDay.keys()))
+  const previous = incremental ? readMarkdownExportState() : {}
+
+  const files: Zippable = {}
+  const state: ExportState = {}
+  for (const [day, dayLogs] of logsByDay) {
+    const signature = getDaySignature(dayLogs)
+    if (previous[day] === signature) continue
+    state[day] = signature
+
+    const imagePaths = new Map<string, string>()
+    for (const log of dayLogs) {
+      if (!log.imageRef) continue
+      const image = await loadImage(log).catch(error => {
+        console.error('Error loading screenshot for daily note:', error)
+        return null
+      })
+      if (!image) continue
+      const path = `${ATTACHMENTS_FOLDER}/tea-${toSafePathSegment(log.id)}.${extensionFor(image.blob.type)}`
+      files[path] = [new Uint8Array(await image.blob.arrayBuffer()), { level: 0 }]
+      imagePaths.set(log.id, path)
+    }
+
+    files[`${day}.md`] = strToU8(renderDailyNote(day, dayLogs, streaks.get(day) ?? 1, imagePaths))
+  }
+
+  const days = Object.keys(state)
+  if (days.length === 0) return null
+
+  const bytes = await new Promise<Uint8Array>((resolve, reject) =>
+    zip(files, (error, data) => error ? reject(error) : resolve(data))
+  )
+  return { archive: new Blob([bytes], { type: 'application/zip' }), days, state }
+}
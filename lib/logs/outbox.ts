@@ -0,0 +1,107 @@
+import { idbGet, idbGetAll, idbPut, idbDelete } from '@/lib/idb'
+import type { LogEntry } from './types'
+import { mergeLogUpdate, type LogUpdate } from './validation'
+
+// Writes made by signed-in users land here first and are pushed to the server by the sync hook
+export type OutboxOperation =
+  | OutboxBase & { type: 'create'; payload: LogEntry }
+  | OutboxBase & { type: 'update'; payload: LogUpdate; editedAt: string }
+  | OutboxBase & { type: 'delete' }
+
+interface OutboxBase {
+  id: string
+  userId: string
+  logId: string
+  createdAt: string
+  attempts: number
+  nextAttemptAt: number
+  status: 'pending' | 'failed'
+  lastError: string | null
+}
+
+export type SyncStatus = 'pending' | 'synced' | 'failed'
+
+interface LogSnapshot {
+  userId: string
+  logs: LogEntry[]
+}
+
+export const MAX_SYNC_ATTEMPTS = 8
+const BASE_RETRY_DELAY_MS = 2 * 1000
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000
+
+// Exponential backoff with a little jitter so several tabs don't retry in lockstep
+export const getRetryDelay = (attempts: number) => {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS)
+  return delay + Math.random() * delay * 0.2
+}
+
+type NewOperation =
+  | { type: 'create'; logId: string; payload: LogEntry }
+  | { type: 'update'; logId: string; payload: LogUpdate; editedAt: string }
+  | { type: 'delete'; logId: string }
+
+export async function enqueueOperation(userId: string, operation: NewOperation): Promise<OutboxOperation> {
+  const queued = {
+    ...operation,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    userId,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    status: 'pending',
+    lastError: null
+  } as OutboxOperation
+  await idbPut('outbox', queued)
+  return queued
+}
+
+// Operations for one user, oldest first so creates reach the server before their edits
+export async function getOperations(userId: string): Promise<OutboxOperation[]> {
+  const operations = await idbGetAll<OutboxOperation>('outbox')
+  return operations
+    .filter(operation => operation.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+export const saveOperation = (operation: OutboxOperation) => idbPut('outbox', operation)
+
+export const removeOperation = (id: string) => idbDelete('outbox', id)
+
+// Per-entry sync state; entries without queued operations are synced
+export const getSyncStatuses = (operations: OutboxOperation[]): Record<string, SyncStatus> => {
+  const statuses: Record<string, SyncStatus> = {}
+  operations.forEach(operation => {
+    if (statuses[operation.logId] !== 'failed') {
+      statuses[operation.logId] = operation.status
+    }
+  })
+  return statuses
+}
+
+// Overlay writes that have not reached the server yet on top of the server's copy
+export const applyPendingOperations = (logs: LogEntry[], operations: OutboxOperation[]): LogEntry[] => {
+  let merged = [...logs]
+  operations.forEach(operation => {
+    if (operation.type === 'create') {
+      if (!merged.some(log => log.id === operation.logId)) {
+        merged.push(operation.payload)
+      }
+    } else if (operation.type === 'delete') {
+      merged = merged.filter(log => log.id !== operation.logId)
+    } else {
+      merged = merged.map(log => log.id === operation.logId ? mergeLogUpdate(log, operation.payload) : log)
+    }
+  })
+  return merged.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+}
+
+// Last known copy of a user's logs so History still renders without a connection
+export async function readSnapshot(userId: string): Promise<LogEntry[] | null> {
+  const snapshot = await idbGet<LogSnapshot>('snapshots', userId)
+  return snapshot?.logs ?? null
+}
+
+export const writeSnapshot = (userId: string, logs: LogEntry[]) => idbPut('snapshots', { userId, logs })
+
+export const clearSnapshot = (userId: string) => idbDelete('snapshots', userId)
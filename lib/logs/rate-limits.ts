@@ -0,0 +1,28 @@
+import type { NextRequest } from 'next/server'
+import { checkRateLimit, getClientIp, parseRateLimitRules } from '@/lib/rate-limit/limiter'
+
+// Configurable as "count/window" lists, e.g. LOG_CREATE_RATE_LIMIT_USER="1/5s,120/1h"
+const LOG_CREATE_LIMITS = {
+  user: parseRateLimitRules(process.env.LOG_CREATE_RATE_LIMIT_USER, '1/5s,120/1h'),
+  ip: parseRateLimitRules(process.env.LOG_CREATE_RATE_LIMIT_IP, '10/10s,600/1h')
+}
+
+// Imports count entries rather than requests, with room for moving a long history in at once
+const LOG_IMPORT_LIMITS = {
+  user: parseRateLimitRules(process.env.LOG_IMPORT_RATE_LIMIT_USER, '2000/1h,10000/1d'),
+  ip: parseRateLimitRules(process.env.LOG_IMPORT_RATE_LIMIT_IP, '5000/1h')
+}
+
+// Logging an entry is limited per account and per address, so neither a second device
+// nor a second account gets around it
+export const checkLogCreateLimit = (request: NextRequest, userId: string) =>
+  checkRateLimit([
+    { key: `logs:create:user:${userId}`, rules: LOG_CREATE_LIMITS.user },
+    { key: `logs:create:ip:${getClientIp(request)}`, rules: LOG_CREATE_LIMITS.ip }
+  ])
+
+export const checkLogImportLimit = (request: NextRequest, userId: string, count: number) =>
+  checkRateLimit([
+    { key: `logs:import:user:${userId}`, rules: LOG_IMPORT_LIMITS.user },
+    { key: `logs:import:ip:${getClientIp(request)}`, rules: LOG_IMPORT_LIMITS.ip }
+  ], count)
@@ -0,0 +1,89 @@
+import type { LogEntry } from './types'
+import type { LogUpdate } from './validation'
+import type { LogRevision } from './revisions'
+
+// Browser-side helpers for the /api/logs route handlers
+
+// Carries the HTTP status (0 when the network request itself failed) so callers can decide whether to retry
+export class RemoteError extends Error {
+  constructor(message: string, public status: number, public body: unknown = null) {
+    super(message)
+    this.name = 'RemoteError'
+  }
+}
+
+// Shared by the browser-side helpers for other /api routes
+export const request = async <T>(input: string, init?: RequestInit): Promise<T> => {
+  let response: Response
+  try {
+    response = await fetch(input, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers }
+    })
+  } catch (error) {
+    throw new RemoteError(error instanceof Error ? error.message : 'Network request failed', 0)
+  }
+
+  const body = await response.json().catch(() => null)
+  if (!response.ok) {
+    throw new RemoteError(body?.error || `Request failed with status ${response.status}`, response.status, body)
+  }
+  return body as T
+}
+
+// The tracker keeps every entry, trashed ones included, so it follows the cursor to the end
+const PAGE_SIZE = 500
+
+export async function fetchRemoteLogs(): Promise<LogEntry[]> {
+  const logs: LogEntry[] = []
+  let cursor: string | null = null
+  do {
+    const params = new URLSearchParams({ deleted: 'include', limit: String(PAGE_SIZE) })
+    if (cursor) params.set('cursor', cursor)
+    const page: { logs: LogEntry[]; nextCursor: string | null } = await request(`/api/logs?${params}`)
+    logs.push(...page.logs)
+    cursor = page.nextCursor
+  } while (cursor)
+  return logs
+}
+
+// editedAt is when the entry was created on this device; later offline edits compare against it
+export async function createRemoteLog(entry: LogEntry, editedAt?: string): Promise<LogEntry> {
+  const { log } = await request<{ log: LogEntry }>('/api/logs', {
+    method: 'POST',
+    body: JSON.stringify({ ...entry, editedAt })
+  })
+  return log
+}
+
+// editedAt is when the change was made on this device; the server keeps the most recent edit
+export async function updateRemoteLog(id: string, update: LogUpdate, editedAt?: string): Promise<LogEntry> {
+  const { log } = await request<{ log: LogEntry }>(`/api/logs/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ ...update, editedAt })
+  })
+  return log
+}
+
+export async function deleteRemoteLog(id: string): Promise<void> {
+  await request<{ deleted: boolean }>(`/api/logs/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+export async function fetchRemoteRevisions(id: string): Promise<LogRevision[]> {
+  const { revisions } = await request<{ revisions: LogRevision[] }>(`/api/logs/${encodeURIComponent(id)}/revisions`)
+  return revisions
+}
+
+export interface ImportResult {
+  logs: LogEntry[]
+  imported: number
+  skipped: number
+  invalid: number
+}
+
+export async function importRemoteLogs(entries: LogEntry[]): Promise<ImportResult> {
+  return request<ImportResult>('/api/logs/import', {
+    method: 'POST',
+    body: JSON.stringify({ logs: entries })
+  })
+}
@@ -0,0 +1,131 @@
+import { energyLevels, attentionStates } from './constants'
+import type { LogEntry } from './types'
+import type { LogUpdate } from './validation'
+
+// Fields whose changes are recorded; matches the database trigger
+export const REVISION_FIELDS = ['timestamp', 'energy', 'attention', 'note', 'imageRef', 'deletedAt'] as const
+
+export type RevisionField = typeof REVISION_FIELDS[number]
+
+export type RevisionChanges = Partial<Record<RevisionField, { before: unknown; after: unknown }>>
+
+export interface LogRevision {
+  id: string
+  logId: string
+  changedAt: string
+  changes: RevisionChanges
+  // The account entry was purged; `changes` holds its final values as `before`
+  purged?: boolean
+}
+
+const GUEST_REVISIONS_KEY = 'tea-log-revisions'
+
+// Compare timestamps by instant since the database and the browser format them differently
+const isSameValue = (field: RevisionField, a: unknown, b: unknown) => {
+  if ((field === 'timestamp' || field === 'deletedAt') && typeof a === 'string' && typeof b === 'string') {
+    return new Date(a).getTime() === new Date(b).getTime()
+  }
+  return (a ?? null) === (b ?? null)
+}
+
+export const diffLog = (before: LogEntry, after: LogEntry): RevisionChanges => {
+  const changes: RevisionChanges = {}
+  REVISION_FIELDS.forEach(field => {
+    if (!isSameValue(field, before[field], after[field])) {
+      changes[field] = { before: before[field] ?? null, after: after[field] ?? null }
+    }
+  })
+  return changes
+}
+
+// Walk back from the current entry through newer revisions to get the entry as it was
+// just before the given revision. Reverting applies this as a normal, recorded change.
+export const getRevertUpdate = (log: LogEntry, revisions: LogRevision[], revisionId: string): LogUpdate => {
+  const newestFirst = [...revisions].sort((a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime())
+  const state: Record<string, unknown> = { ...log }
+
+  for (const revision of newestFirst) {
+    Object.entries(revision.changes).forEach(([field, change]) => {
+      state[field] = change?.before ?? null
+    })
+    if (revision.id === revisionId) break
+  }
+
+  const update: Record<string, unknown> = {}
+  REVISION_FIELDS.forEach(field => {
+    if (!isSameValue(field, log[field], state[field])) {
+      update[field] = state[field]
+    }
+  })
+  return update as LogUpdate
+}
+
+export const formatRevisionValue = (field: RevisionField, value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return field === 'deletedAt' ? 'In history' : 'None'
+  }
+  switch (field) {
+    case 'timestamp':
+      return new Date(value as string).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit'
+      })
+    case 'energy': {
+      const level = energyLevels.find(l => l.value === value)
+      return level ? `${level.icon} ${level.label}` : String(value)
+    }
+    case 'attention': {
+      const state = attentionStates.find(a => a.value === value)
+      return state ? `${state.emoji} ${state.label}` : String(value)
+    }
+    case 'imageRef':
+      return 'Screenshot'
+    case 'deletedAt':
+      return 'In trash'
+    default:
+      return String(value)
+  }
+}
+
+export const REVISION_FIELD_LABELS: Record<RevisionField, string> = {
+  timestamp: 'Time',
+  energy: 'Energy',
+  attention: 'Attention',
+  note: 'Note',
+  imageRef: 'Screenshot',
+  deletedAt: 'Status'
+}
+
+// Guests keep their revisions in localStorage next to their logs
+
+export const getLocalRevisions = (): LogRevision[] =>
+  JSON.parse(localStorage.getItem(GUEST_REVISIONS_KEY) || '[]')
+
+export const recordLocalRevision = (logId: string, changes: RevisionChanges) => {
+  if (Object.keys(changes).length === 0) return
+  const revision: LogRevision = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    logId,
+    changedAt: new Date().toISOString(),
+    changes
+  }
+  localStorage.setItem(GUEST_REVISIONS_KEY, JSON.stringify([...getLocalRevisions(), revision]))
+}
+
+export const removeLocalRevisions = (logId: string) => {
+  localStorage.setItem(
+    GUEST_REVISIONS_KEY,
+    JSON.stringify(getLocalRevisions().filter(revision => revision.logId !== logId))
+  )
+}
+
+export const clearLocalRevisions = () => localStorage.removeItem(GUEST_REVISIONS_KEY)
+
+// Every screenshot an entry has referenced, so purging it can remove all of them
+export const getRevisionImageRefs = (revisions: LogRevision[]): string[] =>
+  revisions.flatMap(revision => {
+    const change = revision.changes.imageRef
+    return [change?.before, change?.after].filter((ref): ref is string => typeof ref === 'string')
+  })
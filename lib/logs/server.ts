@@ -0,0 +1,255 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { energyLevels } from './constants'
+import { findNewLogs } from './dedupe'
+import type { LogEntry, TeaLogRow } from './types'
+import type { LogUpdate } from './validation'
+import type { ListLogsOptions, LogPosition } from './api'
+import { getRevisionImageRefs, type LogRevision, type RevisionChanges } from './revisions'
+import { SCREENSHOT_BUCKET, getStoragePath, getThumbnailPath, isStorageImageRef } from '@/lib/images/refs'
+
+export const rowToLogEntry = (row: TeaLogRow): LogEntry => ({
+  id: row.id,
+  timestamp: row.logged_at,
+  energy: row.energy,
+  energyLabel: row.energy_label,
+  attention: row.attention,
+  note: row.note,
+  imageRef: row.image_ref,
+  deletedAt: row.deleted_at
+})
+
+const updateToRow = (update: LogUpdate): Partial<TeaLogRow> => {
+  const row: Partial<TeaLogRow> = {}
+  if (update.timestamp !== undefined) row.logged_at = update.timestamp
+  if (update.energy !== undefined) {
+    row.energy = update.energy
+    row.energy_label = energyLevels.find(l => l.value === update.energy)?.label || ''
+  }
+  if (update.attention !== undefined) row.attention = update.attention
+  if (update.note !== undefined) row.note = update.note
+  if (update.imageRef !== undefined) row.image_ref = update.imageRef
+  if (update.deletedAt !== undefined) row.deleted_at = update.deletedAt
+  return row
+}
+
+// Remove screenshots and their thumbnails from storage. The entry is already gone,
+// so an orphaned file is logged rather than failing the request.
+const removeStoredImages = async (supabase: SupabaseClient, imageRefs: (string | null)[]) => {
+  const paths = imageRefs
+    .filter((ref): ref is string => !!ref && isStorageImageRef(ref))
+    .flatMap(ref => [getStoragePath(ref), getThumbnailPath(getStoragePath(ref))])
+  if (paths.length === 0) return
+
+  const { error } = await supabase.storage
+    .from(SCREENSHOT_BUCKET)
+    .remove(Array.from(new Set(paths)))
+  if (error) console.error('Error removing screenshots:', error)
+}
+
+// All queries rely on row-level security to scope rows to the signed-in user
+
+export interface LogPage {
+  logs: LogEntry[]
+  next: LogPosition | null
+}
+
+// Ids are arbitrary strings; inside a double-quoted PostgREST filter value a backslash escapes
+// the next character, so backslashes are escaped before quotes
+const quoteFilterValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+
+// Newest first, ordered by timestamp then id so a cursor lands in the same place on every request
+export async function listLogs(supabase: SupabaseClient, options: ListLogsOptions): Promise<LogPage> {
+  let query = supabase
+    .from('tea_logs')
+    .select('*')
+    .order('logged_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(options.limit + 1)
+
+  if (options.from) query = query.gte('logged_at', options.from)
+  if (options.to) query = query.lt('logged_at', options.to)
+  if (options.deleted === 'exclude') query = query.is('deleted_at', null)
+  if (options.deleted === 'only') query = query.not('deleted_at', 'is', null)
+  if (options.after) {
+    const { timestamp, id } = options.after
+    query = query.or(`logged_at.lt."${timestamp}",and(logged_at.eq."${timestamp}",id.lt."${quoteFilterValue(id)}")`)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const logs = (data as TeaLogRow[]).slice(0, options.limit).map(rowToLogEntry)
+  const last = logs[logs.length - 1]
+  return {
+    logs,
+    next: data.length > options.limit && last ? { timestamp: last.timestamp, id: last.id } : null
+  }
+}
+
+export async function getLog(supabase: SupabaseClient, id: string): Promise<LogEntry | null> {
+  const { data, error } = await supabase
+    .from('tea_logs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? rowToLogEntry(data as TeaLogRow) : null
+}
+
+const logEntryToRow = (userId: string, entry: LogEntry) => ({
+  id: entry.id,
+  user_id: userId,
+  logged_at: entry.timestamp,
+  energy: entry.energy,
+  energy_label: entry.energyLabel,
+  attention: entry.attention,
+  note: entry.note,
+  image_ref: entry.imageRef,
+  deleted_at: entry.deletedAt ?? null
+})
+
+// editedAt is when the entry was created on the device, so edits queued after it while offline
+// still count as newer once they arrive
+export async function insertLog(supabase: SupabaseClient, userId: string, entry: LogEntry, editedAt?: string): Promise<LogEntry> {
+  const { data, error } = await supabase
+    .from('tea_logs')
+    .insert({ ...logEntryToRow(userId, entry), ...(editedAt && { updated_at: editedAt }) })
+    .select()
+    .single()
+
+  if (error) throw error
+  return rowToLogEntry(data as TeaLogRow)
+}
+
+export type UpdateResult =
+  | { status: 'updated'; log: LogEntry }
+  | { status: 'conflict'; log: LogEntry }
+  | { status: 'not_found' }
+
+// When editedAt is given the write only applies if no newer edit reached the server first (last writer wins).
+// An edit stamped with the same time, such as a retry of this one, is applied again.
+export async function updateLog(
+  supabase: SupabaseClient,
+  id: string,
+  update: LogUpdate,
+  editedAt?: string
+): Promise<UpdateResult> {
+  let query = supabase
+    .from('tea_logs')
+    .update({ ...updateToRow(update), updated_at: editedAt ?? new Date().toISOString() })
+    .eq('id', id)
+  if (editedAt) {
+    query = query.lte('updated_at', editedAt)
+  }
+
+  const { data, error } = await query.select().maybeSingle()
+  if (error) throw error
+  // Replaced screenshots stay in storage so the entry's revisions can be reverted
+  if (data) return { status: 'updated', log: rowToLogEntry(data as TeaLogRow) }
+
+  if (editedAt) {
+    const { data: current, error: currentError } = await supabase
+      .from('tea_logs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (currentError) throw currentError
+    if (current) return { status: 'conflict', log: rowToLogEntry(current as TeaLogRow) }
+  }
+  return { status: 'not_found' }
+}
+
+// Keeps each lookup's query string well under URL length limits
+const EXISTING_LOOKUP_SIZE = 100
+
+// Entries already in the account that share an id or timestamp with the incoming ones. Only
+// those are fetched, so the check doesn't depend on how many entries the account has.
+const findExistingKeys = async (supabase: SupabaseClient, entries: LogEntry[]) => {
+  const lookups: { column: 'id' | 'logged_at'; values: string[] }[] = [
+    { column: 'id', values: entries.map(entry => entry.id) },
+    { column: 'logged_at', values: entries.map(entry => entry.timestamp) }
+  ]
+  const batches = lookups.flatMap(({ column, values }) =>
+    Array.from({ length: Math.ceil(values.length / EXISTING_LOOKUP_SIZE) }, (_, i) => ({
+      column,
+      values: values.slice(i * EXISTING_LOOKUP_SIZE, (i + 1) * EXISTING_LOOKUP_SIZE)
+    }))
+  )
+
+  const results = await Promise.all(batches.map(async ({ column, values }) => {
+    const { data, error } = await supabase
+      .from('tea_logs')
+      .select('id, logged_at')
+      .in(column, values)
+
+    if (error) throw error
+    return data as Pick<TeaLogRow, 'id' | 'logged_at'>[]
+  }))
+  return results.flat().map(row => ({ id: row.id, timestamp: row.logged_at }))
+}
+
+// Insert entries that are not already in the account (matched by id or timestamp)
+export async function importLogs(supabase: SupabaseClient, userId: string, entries: LogEntry[]): Promise<LogEntry[]> {
+  if (entries.length === 0) return []
+
+  const newEntries = findNewLogs(await findExistingKeys(supabase, entries), entries)
+  if (newEntries.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('tea_logs')
+    .upsert(newEntries.map(entry => logEntryToRow(userId, entry)), {
+      onConflict: 'user_id,id',
+      ignoreDuplicates: true
+    })
+    .select()
+
+  if (error) throw error
+  return (data as TeaLogRow[]).map(rowToLogEntry)
+}
+
+// Permanently remove an entry and every screenshot it has had; returns the removed entry, or null
+// when it does not exist. Its revisions are kept, ending with one that records the purge.
+export async function deleteLog(supabase: SupabaseClient, id: string): Promise<LogEntry | null> {
+  const revisions = await listRevisions(supabase, id)
+
+  const { data, error } = await supabase
+    .from('tea_logs')
+    .delete()
+    .eq('id', id)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  const log = rowToLogEntry(data as TeaLogRow)
+  await removeStoredImages(supabase, [log.imageRef, ...getRevisionImageRefs(revisions)])
+  return log
+}
+
+interface TeaLogRevisionRow {
+  id: number
+  log_id: string
+  changed_at: string
+  changes: RevisionChanges
+  purged: boolean
+}
+
+export async function listRevisions(supabase: SupabaseClient, logId: string): Promise<LogRevision[]> {
+  const { data, error } = await supabase
+    .from('tea_log_revisions')
+    .select('id, log_id, changed_at, changes, purged')
+    .eq('log_id', logId)
+    .order('changed_at', { ascending: false })
+
+  if (error) throw error
+  return (data as TeaLogRevisionRow[]).map(row => ({
+    id: String(row.id),
+    logId: row.log_id,
+    changedAt: row.changed_at,
+    changes: row.changes,
+    purged: row.purged
+  }))
+}
@@ -0,0 +1,134 @@
+import type { LogEntry } from './types'
+
+export interface StreakData {
+  dailiesCount: number // Current day's track count (1-8)
+  dayCount: number // Number of consecutive days
+  weekCount: number // Number of consecutive weeks
+  monthCount: number // Number of consecutive months
+  yearCount: number // Number of consecutive years
+  currentTier: number // Current exponent tier (1-8)
+  lastLogDate: string | null
+  streakStartDate: string | null
+}
+
+// Enhanced exponential streak calculation
+export const calculateStreakFromLogs = (logs: LogEntry[]): StreakData => {
+  if (logs.length === 0) {
+    return {
+      dailiesCount: 0,
+      dayCount: 0,
+      weekCount: 0,
+      monthCount: 0,
+      yearCount: 0,
+      currentTier: 1,
+      lastLogDate: null,
+      streakStartDate: null
+    }
+  }
+
+  // Sort logs by date (newest first)
+  const sortedLogs = [...logs].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+  
+  // Group logs by date and count dailies per day
+  const logsByDate = new Map<string, number>()
+  sortedLogs.forEach(log => {
+    const dateKey = new Date(log.timestamp).toDateString()
+    logsByDate.set(dateKey, (logsByDate.get(dateKey) || 0) + 1)
+  })
+
+  // Get sorted unique dates
+  const uniqueDates = Array.from(logsByDate.keys()).sort((a, b) => new Date(b).getTime() - new Date(a).getTime())
+  
+  if (uniqueDates.length === 0) {
+    return {
+      dailiesCount: 0,
+      dayCount: 0,
+      weekCount: 0,
+      monthCount: 0,
+      yearCount: 0,
+      currentTier: 1,
+      lastLogDate: null,
+      streakStartDate: null
+    }
+  }
+
+  const now = new Date()
+  const today = now.toDateString()
+  const gracePeriod = new Date(now.getTime() - 36 * 60 * 60 * 1000).toDateString() // 36 hours ago
+
+  // Check if we're within grace period
+  const latestDate = uniqueDates[0]
+  const isWithinGracePeriod = latestDate === today || new Date(latestDate) >= new Date(gracePeriod)
+
+  if (!isWithinGracePeriod) {
+    return {
+      dailiesCount: 0,
+      dayCount: 0,
+      weekCount: 0,
+      monthCount: 0,
+      yearCount: 0,
+      currentTier: 1,
+      lastLogDate: sortedLogs[0].timestamp,
+      streakStartDate: null
+    }
+  }
+
+  // Calculate current day's dailies count
+  const todayCount = logsByDate.get(today) || 0
+  const latestDayCount = logsByDate.get(latestDate) || 0
+  const dailiesCount = Math.min(todayCount > 0 ? todayCount : latestDayCount, 8)
+
+  // Calculate consecutive days and current tier
+  let dayCount = 0
+  let currentTier = 1
+  let streakStartDate: string | null = null
+  let currentDayTier = 1
+
+  // Find consecutive days and track tier consistency
+  for (let i = 0; i < uniqueDates.length; i++) {
+    const currentDate = new Date(uniqueDates[i])
+    const dailiesForDay = Math.min(logsByDate.get(uniqueDates[i]) || 0, 8)
+    
+    if (i === 0) {
+      // First day sets the initial tier
+      currentDayTier = dailiesForDay
+      dayCount = 1
+      streakStartDate = uniqueDates[i]
+    } else {
+      // Check if this day is consecutive (within 36 hours)
+      const prevDate = new Date(uniqueDates[i-1])
+      const timeDiff = prevDate.getTime() - currentDate.getTime()
+      const daysDiff = timeDiff / (24 * 60 * 60 * 1000)
+      
+      if (daysDiff <= 1.5) { // Within 36 hours
+        dayCount++
+        streakStartDate = uniqueDates[i]
+        
+        // Update tier based on minimum consistent level
+        if (dailiesForDay < currentDayTier) {
+          currentDayTier = dailiesForDay
+        }
+      } else {
+        break
+      }
+    }
+  }
+
+  currentTier = Math.max(currentDayTier, 1)
+
+  // Calculate weeks, months, years
+  const weekCount = Math.floor(dayCount / 7)
+  const monthCount = Math.floor(weekCount / 4)
+  const yearCount = Math.floor(monthCount / 12)
+
+  return {
+    dailiesCount,
+    dayCount,
+    weekCount,
+    monthCount,
+    yearCount,
+    currentTier,
+    lastLogDate: sortedLogs[0].timestamp,
+    streakStartDate
+  }
+}
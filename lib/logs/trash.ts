@@ -0,0 +1,16 @@
+import type { LogEntry } from './types'
+
+// How long a deleted entry can be restored before it is purged for good
+export const TRASH_RETENTION_DAYS = 30
+
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+
+export const isExpiredFromTrash = (log: LogEntry, now = Date.now()) =>
+  !!log.deletedAt && now - new Date(log.deletedAt).getTime() > RETENTION_MS
+
+// Days left before a trashed entry is purged, for the trash view
+export const getDaysUntilPurge = (log: LogEntry, now = Date.now()) => {
+  if (!log.deletedAt) return TRASH_RETENTION_DAYS
+  const remaining = RETENTION_MS - (now - new Date(log.deletedAt).getTime())
+  return Math.max(Math.ceil(remaining / (24 * 60 * 60 * 1000)), 0)
+}
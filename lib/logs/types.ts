@@ -0,0 +1,26 @@
+// Shape of a single tracked entry, shared by the tracker UI and the log route handlers
+export interface LogEntry {
+  id: string
+  timestamp: string
+  energy: number
+  energyLabel: string
+  attention: string
+  note: string | null
+  imageRef: string | null // See lib/images/refs.ts
+  deletedAt?: string | null // Set while the entry sits in the trash
+}
+
+// Row as stored in the `tea_logs` table
+export interface TeaLogRow {
+  id: string
+  user_id: string
+  logged_at: string
+  energy: number
+  energy_label: string
+  attention: string
+  note: string | null
+  image_ref: string | null
+  deleted_at: string | null
+  created_at: string
+  updated_at: string
+}
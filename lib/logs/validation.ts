@@ -0,0 +1,143 @@
+import { MAX_NOTE_LENGTH, energyLevels, attentionStates } from './constants'
+import type { LogEntry } from './types'
+import { isStorageImageRef } from '@/lib/images/refs'
+
+// Fields a client may change on an existing entry
+export type LogUpdate = Partial<Pick<LogEntry, 'timestamp' | 'energy' | 'attention' | 'note' | 'imageRef' | 'deletedAt'>>
+
+// Machine-readable description of one problem with a request body; see docs/api.md
+export interface ValidationIssue {
+  field: string | null
+  code: 'required' | 'invalid_type' | 'invalid_value' | 'too_long' | 'future_timestamp' | 'empty_update'
+  message: string
+}
+
+type ValidationResult<T> =
+  | { value: T; error?: undefined; issues?: undefined }
+  | { value?: undefined; error: string; issues: ValidationIssue[] }
+
+const invalid = (issues: ValidationIssue[]): ValidationResult<never> => ({ error: issues[0].message, issues })
+
+// Allow a little clock drift between the device and the server
+const MAX_CLOCK_SKEW_MS = 60 * 1000
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime())
+
+const validateTimestamp = (timestamp: unknown): ValidationIssue | null => {
+  if (!isDateString(timestamp)) {
+    return { field: 'timestamp', code: 'invalid_type', message: 'timestamp must be an ISO date string' }
+  }
+  if (new Date(timestamp).getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+    return { field: 'timestamp', code: 'future_timestamp', message: 'Cannot set a future timestamp' }
+  }
+  return null
+}
+
+// Collect every problem rather than stopping at the first so API clients can fix them in one go
+const validateFields = (input: Record<string, unknown>): ValidationIssue[] => {
+  const issues: ValidationIssue[] = []
+  if ('timestamp' in input) {
+    const timestampIssue = validateTimestamp(input.timestamp)
+    if (timestampIssue) issues.push(timestampIssue)
+  }
+  if ('energy' in input && !energyLevels.some(l => l.value === input.energy)) {
+    issues.push({ field: 'energy', code: 'invalid_value', message: 'energy must be an integer from 1 to 5' })
+  }
+  if ('attention' in input && !attentionStates.some(a => a.value === input.attention)) {
+    issues.push({
+      field: 'attention',
+      code: 'invalid_value',
+      message: `attention must be one of ${attentionStates.map(a => a.value).join(', ')}`
+    })
+  }
+  if ('note' in input && input.note !== null) {
+    if (typeof input.note !== 'string') {
+      issues.push({ field: 'note', code: 'invalid_type', message: 'note must be a string or null' })
+    } else if (input.note.length > MAX_NOTE_LENGTH) {
+      issues.push({ field: 'note', code: 'too_long', message: `note must be at most ${MAX_NOTE_LENGTH} characters` })
+    }
+  }
+  if ('imageRef' in input && input.imageRef !== null) {
+    // Screenshots are uploaded to storage before the entry reaches the server
+    if (typeof input.imageRef !== 'string' || !isStorageImageRef(input.imageRef)) {
+      issues.push({ field: 'imageRef', code: 'invalid_value', message: 'imageRef must reference an uploaded screenshot or be null' })
+    }
+  }
+  if ('deletedAt' in input && input.deletedAt !== null && !isDateString(input.deletedAt)) {
+    issues.push({ field: 'deletedAt', code: 'invalid_type', message: 'deletedAt must be an ISO date string or null' })
+  }
+  return issues
+}
+
+const NOT_AN_OBJECT: ValidationIssue = { field: null, code: 'invalid_type', message: 'Request body must be a JSON object' }
+
+// Apply an update to a local copy, keeping energyLabel in step with energy
+export const mergeLogUpdate = (log: LogEntry, update: LogUpdate): LogEntry => ({
+  ...log,
+  ...update,
+  energyLabel: update.energy !== undefined
+    ? energyLevels.find(l => l.value === update.energy)?.label || ''
+    : log.energyLabel
+})
+
+// Validate a full entry sent by the tracker, deriving energyLabel from the energy value
+export const parseLogEntry = (body: unknown): ValidationResult<LogEntry> => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return invalid([NOT_AN_OBJECT])
+  const input = body as Record<string, unknown>
+
+  const issues: ValidationIssue[] = []
+  if (typeof input.id !== 'string' || input.id.length === 0) {
+    issues.push({ field: 'id', code: 'required', message: 'id is required' })
+  }
+  for (const field of ['timestamp', 'energy', 'attention']) {
+    if (!(field in input)) issues.push({ field, code: 'required', message: `${field} is required` })
+  }
+  issues.push(...validateFields(input))
+  if (issues.length > 0) return invalid(issues)
+
+  const energy = input.energy as number
+  return {
+    value: {
+      id: input.id as string,
+      timestamp: new Date(input.timestamp as string).toISOString(),
+      energy,
+      energyLabel: energyLevels.find(l => l.value === energy)?.label || '',
+      attention: input.attention as string,
+      note: (input.note as string | null | undefined) || null,
+      imageRef: (input.imageRef as string | null | undefined) || null,
+      deletedAt: input.deletedAt ? new Date(input.deletedAt as string).toISOString() : null
+    }
+  }
+}
+
+// Validate a partial update, keeping only the fields a client may change
+export const parseLogUpdate = (body: unknown): ValidationResult<LogUpdate> => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return invalid([NOT_AN_OBJECT])
+  const input = body as Record<string, unknown>
+
+  const issues = validateFields(input)
+  if (issues.length > 0) return invalid(issues)
+
+  const update: LogUpdate = {}
+  if ('timestamp' in input) update.timestamp = new Date(input.timestamp as string).toISOString()
+  if ('energy' in input) update.energy = input.energy as number
+  if ('attention' in input) update.attention = input.attention as string
+  if ('note' in input) update.note = (input.note as string | null) || null
+  if ('imageRef' in input) update.imageRef = input.imageRef as string | null
+  if ('deletedAt' in input) update.deletedAt = input.deletedAt ? new Date(input.deletedAt as string).toISOString() : null
+
+  if (Object.keys(update).length === 0) {
+    return invalid([{ field: null, code: 'empty_update', message: 'No updatable fields provided' }])
+  }
+  return { value: update }
+}
+
+// When an offline edit was made; clamped to now so a device with a fast clock can't always win
+export const parseEditedAt = (body: unknown): string | undefined => {
+  const editedAt = (body as Record<string, unknown> | null)?.editedAt
+  if (typeof editedAt !== 'string') return undefined
+  const time = new Date(editedAt).getTime()
+  if (Number.isNaN(time)) return undefined
+  return new Date(Math.min(time, Date.now())).toISOString()
+}
@@ -0,0 +1,144 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { getRateLimitStore, type RateLimitStore } from './store'
+
+export interface RateLimitRule {
+  limit: number
+  windowMs: number
+}
+
+// A set of rules applied to one key, e.g. every rule for a given user
+export interface RateLimitCheck {
+  key: string
+  rules: RateLimitRule[]
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  // The tightest rule: the one that blocked the request, or the one closest to blocking it
+  limit: number
+  remaining: number
+  resetAt: number
+  retryAfterMs: number
+}
+
+// Shape of the 429 body so the UI can show when to try again
+export interface RateLimitErrorBody {
+  error: string
+  code: 'rate_limited'
+  retryAfter: number
+}
+
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }
+
+// Parse rules written as "count/window", comma separated, e.g. "1/5s,120/1h".
+// Falls back to the defaults when the spec is missing or malformed.
+export const parseRateLimitRules = (spec: string | undefined, fallback: string): RateLimitRule[] => {
+  const parse = (value: string) => value.split(',').map(part => {
+    const match = part.trim().match(/^(\d+)\/(\d+)([smhd])$/)
+    if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) return null
+    return { limit: Number(match[1]), windowMs: Number(match[2]) * UNIT_MS[match[3]] }
+  })
+
+  const rules = spec ? parse(spec) : []
+  if (rules.length > 0 && rules.every(rule => rule !== null)) {
+    return rules as RateLimitRule[]
+  }
+  if (spec) {
+    console.error(`Invalid rate limit "${spec}", using "${fallback}"`)
+  }
+  return parse(fallback) as RateLimitRule[]
+}
+
+// Sliding window: a request is allowed when every rule has room for its `cost` (1 for a single
+// request, or e.g. the number of entries in a batch) in the last `windowMs`. The hits are recorded
+// up front and taken back when the request is blocked, so waiting always frees up room.
+export async function checkRateLimit(
+  checks: RateLimitCheck[],
+  cost = 1,
+  store: RateLimitStore = getRateLimitStore(),
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const id = crypto.randomUUID()
+  const recordHits = () => Promise.all(checks.map(async ({ key, rules }) => {
+    const hits = await store.addHits(key, id, now, cost, Math.max(...rules.map(rule => rule.windowMs)))
+    return rules.map(rule => {
+      const sorted = hits.filter(timestamp => timestamp > now - rule.windowMs).sort((a, b) => a - b)
+      const remaining = rule.limit - sorted.length
+      // When blocked, room opens up once enough of the earlier hits leave the window; a cost
+      // above the limit never fits, so it waits out the whole window
+      const freedAt = remaining >= 0
+        ? now
+        : cost > rule.limit
+          ? now + rule.windowMs
+          : sorted[-remaining - 1] + rule.windowMs
+      return { rule, remaining, resetAt: sorted[0] + rule.windowMs, freedAt }
+    })
+  }))
+
+  // An unreachable store lets requests through rather than stopping everyone from logging
+  let windows: Awaited<ReturnType<typeof recordHits>>[number]
+  try {
+    windows = (await recordHits()).flat()
+  } catch (error) {
+    console.error('Error checking rate limit:', error)
+    return { allowed: true, limit: Infinity, remaining: Infinity, resetAt: now, retryAfterMs: 0 }
+  }
+
+  const blocked = windows.filter(window => window.remaining < 0)
+  if (blocked.length > 0) {
+    await Promise.all(checks.map(({ key }) => store.removeHits(key, id))).catch(error => {
+      console.error('Error releasing rate limit hits:', error)
+    })
+    const tightest = blocked.reduce((latest, window) => window.freedAt > latest.freedAt ? window : latest)
+    return {
+      allowed: false,
+      limit: tightest.rule.limit,
+      remaining: 0,
+      resetAt: tightest.resetAt,
+      retryAfterMs: Math.max(tightest.freedAt - now, 0)
+    }
+  }
+
+  const tightest = windows.reduce<typeof windows[number] | null>(
+    (lowest, window) => !lowest || window.remaining < lowest.remaining ? window : lowest,
+    null
+  )
+  return {
+    allowed: true,
+    limit: tightest?.rule.limit ?? Infinity,
+    remaining: tightest?.remaining ?? Infinity,
+    resetAt: tightest?.resetAt ?? now,
+    retryAfterMs: 0
+  }
+}
+
+// Best guess at the caller's address behind Vercel or another proxy
+export const getClientIp = (request: NextRequest) =>
+  request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+  request.headers.get('x-real-ip') ||
+  'unknown'
+
+const getRateLimitHeaders = (result: RateLimitResult): Record<string, string> =>
+  Number.isFinite(result.limit)
+    ? {
+        'RateLimit-Limit': String(result.limit),
+        'RateLimit-Remaining': String(result.remaining),
+        'RateLimit-Reset': String(Math.max(Math.ceil((result.resetAt - Date.now()) / 1000), 0))
+      }
+    : {}
+
+// `extra` lets an API add its own envelope fields, such as a version
+export const rateLimitResponse = (result: RateLimitResult, message: string, extra: Record<string, unknown> = {}) => {
+  const retryAfter = Math.max(Math.ceil(result.retryAfterMs / 1000), 1)
+  const body: RateLimitErrorBody = { error: message, code: 'rate_limited', retryAfter }
+  return NextResponse.json({ ...extra, ...body }, {
+    status: 429,
+    headers: { ...getRateLimitHeaders(result), 'Retry-After': String(retryAfter) }
+  })
+}
+
+// Attach the current allowance to a successful response
+export const withRateLimitHeaders = <T extends NextResponse>(response: T, result: RateLimitResult) => {
+  Object.entries(getRateLimitHeaders(result)).forEach(([name, value]) => response.headers.set(name, value))
+  return response
+}
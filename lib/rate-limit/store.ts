@@ -0,0 +1,71 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { SupabaseRateLimitStore } from './supabase-store'
+
+// Where the limiter keeps its hits. Production uses the rate_limit_hits table so the limits hold
+// across serverless instances; elsewhere the in-memory store, which is per process, is enough.
+// Swap in another shared store (Redis, ...) with setRateLimitStore.
+//
+// Recording and counting happen in one call so concurrent requests can't all pass before any
+// of them is recorded. With Redis that is ZADD, ZREMRANGEBYSCORE and ZRANGE in one MULTI.
+export interface RateLimitStore {
+  // Record `count` hits at `at` under `id`, then return the timestamps (ms) of every hit for
+  // this key in the last `windowMs`, the new ones included. The store may forget hits older
+  // than `windowMs`.
+  addHits: (key: string, id: string, at: number, count: number, windowMs: number) => Promise<number[]>
+  // Take back the hits recorded under `id`, for a request the limiter turned away
+  removeHits: (key: string, id: string) => Promise<void>
+}
+
+interface StoredHit {
+  id: string
+  at: number
+  count: number
+}
+
+const SWEEP_INTERVAL = 500
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, { hits: StoredHit[]; expiresAt: number }>()
+  private writesSinceSweep = 0
+
+  async addHits(key: string, id: string, at: number, count: number, windowMs: number) {
+    const kept = (this.hits.get(key)?.hits ?? []).filter(hit => hit.at > at - windowMs)
+    const hits = [...kept, { id, at, count }]
+    this.hits.set(key, { hits, expiresAt: at + windowMs })
+
+    // Drop idle keys now and then so the map doesn't grow with every visitor
+    this.writesSinceSweep += 1
+    if (this.writesSinceSweep >= SWEEP_INTERVAL) {
+      this.writesSinceSweep = 0
+      this.hits.forEach((value, storedKey) => {
+        if (value.expiresAt <= at) this.hits.delete(storedKey)
+      })
+    }
+
+    return hits.flatMap(hit => Array<number>(hit.count).fill(hit.at))
+  }
+
+  async removeHits(key: string, id: string) {
+    const entry = this.hits.get(key)
+    if (entry) {
+      entry.hits = entry.hits.filter(hit => hit.id !== id)
+    }
+  }
+
+  clear() {
+    this.hits.clear()
+  }
+}
+
+let store: RateLimitStore | null = null
+
+export const getRateLimitStore = () => {
+  store ??= process.env.NODE_ENV === 'production'
+    ? new SupabaseRateLimitStore(createServiceClient)
+    : new MemoryRateLimitStore()
+  return store
+}
+
+export const setRateLimitStore = (nextStore: RateLimitStore) => {
+  store = nextStore
+}
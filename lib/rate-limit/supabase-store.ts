@@ -0,0 +1,28 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { RateLimitStore } from './store'
+
+// Keeps hits in the rate_limit_hits table so every server instance shares one count. The
+// database functions lock per key, which makes recording and counting a single step.
+export class SupabaseRateLimitStore implements RateLimitStore {
+  // The client must act as the service role; users can't call the functions
+  constructor(private getClient: () => SupabaseClient) {}
+
+  async addHits(key: string, id: string, at: number, count: number, windowMs: number) {
+    const { data, error } = await this.getClient().rpc('rate_limit_add_hits', {
+      p_key: key,
+      p_hit_id: id,
+      p_at: at,
+      p_hits: count,
+      p_window_ms: windowMs
+    })
+
+    if (error) throw error
+    return (data as { hit_at: number; hits: number }[])
+      .flatMap(row => Array<number>(row.hits).fill(Number(row.hit_at)))
+  }
+
+  async removeHits(key: string, id: string) {
+    const { error } = await this.getClient().rpc('rate_limit_remove_hits', { p_key: key, p_hit_id: id })
+    if (error) throw error
+  }
+}
@@ -1,4 +1,6 @@
 import { createServerClient } from "@supabase/ssr";
+import { createClient as createSupabaseClient } from "@supabase/supabase-js";
+import { createHmac } from "crypto";
 import { cookies } from "next/headers";
 
 export async function createClient() {
@@ -27,3 +29,64 @@ export async function createClient() {
     },
   );
 }
+
+// Requests authenticated with a personal API token have no session cookie. They get a
+// client acting as the token's owner through a short-lived JWT signed with the project's
+// JWT secret, so row-level security applies exactly as it does for the app.
+const TOKEN_TTL_SECONDS = 60;
+
+const signToken = (claims: Record<string, string>) => {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error("SUPABASE_JWT_SECRET is required for API tokens and scheduled jobs");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ alg: "HS256", typ: "JWT" })}.${encode({
+    ...claims,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+  })}`;
+  const signature = createHmac("sha256", secret)
+    .update(unsigned)
+    .digest("base64url");
+  return `${unsigned}.${signature}`;
+};
+
+const signUserToken = (userId: string) =>
+  signToken({ sub: userId, role: "authenticated", aud: "authenticated" });
+
+// A client with no user, for lookups that happen before anyone is authenticated
+export function createAnonClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } },
+  );
+}
+
+export function createClientForUser(userId: string) {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${signUserToken(userId)}` } },
+    },
+  );
+}
+
+// Bypasses row-level security. Only for server-side writes users may not make themselves, such
+// as queueing and sending webhook deliveries; never hand it to a request on behalf of a user.
+export function createServiceClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: { headers: { Authorization: `Bearer ${signToken({ role: "service_role" })}` } },
+    },
+  );
+}
@@ -0,0 +1,22 @@
+import { request } from '@/lib/logs/remote'
+import type { ApiToken, ApiTokenScope } from './types'
+
+// Browser-side helpers for the /api/tokens route handlers
+
+export async function fetchRemoteTokens(): Promise<ApiToken[]> {
+  const { tokens } = await request<{ tokens: ApiToken[] }>('/api/tokens')
+  return tokens
+}
+
+// The returned token is the only time its full value is available
+export async function createRemoteToken(name: string, scope: ApiTokenScope): Promise<{ token: string; apiToken: ApiToken }> {
+  return request('/api/tokens', {
+    method: 'POST',
+    body: JSON.stringify({ name, scope })
+  })
+}
+
+export async function revokeRemoteToken(id: string): Promise<ApiToken> {
+  const { apiToken } = await request<{ apiToken: ApiToken }>(`/api/tokens/${encodeURIComponent(id)}`, { method: 'DELETE' })
+  return apiToken
+}
@@ -0,0 +1,95 @@
+import { createHash, randomBytes } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { MAX_TOKEN_NAME_LENGTH, type ApiToken, type ApiTokenRow, type ApiTokenScope } from './types'
+
+// Recognisable prefix so leaked tokens are easy to spot in logs and secret scanners
+const TOKEN_PREFIX = 'tea_'
+const VISIBLE_PREFIX_LENGTH = TOKEN_PREFIX.length + 6
+
+export const isApiToken = (value: string) => value.startsWith(TOKEN_PREFIX)
+
+// Tokens carry 256 bits of randomness, so a plain SHA-256 is enough to store them safely
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+const rowToApiToken = (row: ApiTokenRow): ApiToken => ({
+  id: row.id,
+  name: row.name,
+  scope: row.scope,
+  prefix: row.token_prefix,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at,
+  revokedAt: row.revoked_at
+})
+
+export const parseTokenInput = (body: unknown): { value: { name: string; scope: ApiTokenScope }; error?: undefined } | { value?: undefined; error: string } => {
+  const input = (body ?? {}) as Record<string, unknown>
+  const name = typeof input.name === 'string' ? input.name.trim() : ''
+  if (name.length === 0) return { error: 'Give the token a name' }
+  if (name.length > MAX_TOKEN_NAME_LENGTH) return { error: `Token names can be at most ${MAX_TOKEN_NAME_LENGTH} characters` }
+  if (input.scope !== 'read' && input.scope !== 'write') return { error: 'scope must be read or write' }
+  return { value: { name, scope: input.scope } }
+}
+
+// Listing, creating and revoking take the signed-in user's client, so row-level security keeps
+// them to that user's tokens. authenticateToken runs before anyone is signed in instead.
+
+export async function listTokens(supabase: SupabaseClient): Promise<ApiToken[]> {
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .select('*')
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data as ApiTokenRow[]).map(rowToApiToken)
+}
+
+// Returns the plain token alongside its record; it cannot be recovered later
+export async function createToken(
+  supabase: SupabaseClient,
+  userId: string,
+  name: string,
+  scope: ApiTokenScope
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .insert({
+      user_id: userId,
+      name,
+      scope,
+      token_hash: hashToken(token),
+      token_prefix: token.slice(0, VISIBLE_PREFIX_LENGTH)
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return { token, apiToken: rowToApiToken(data as ApiTokenRow) }
+}
+
+// Returns null when the token does not exist or was already revoked
+export async function revokeToken(supabase: SupabaseClient, id: string): Promise<ApiToken | null> {
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('revoked_at', null)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? rowToApiToken(data as ApiTokenRow) : null
+}
+
+// Resolve a bearer token to its owner and scope; null when unknown or revoked. The anonymous
+// client can't read api_tokens, so the lookup goes through the authenticate_api_token function.
+export async function authenticateToken(
+  supabase: SupabaseClient,
+  token: string
+): Promise<{ userId: string; scope: ApiTokenScope } | null> {
+  const { data, error } = await supabase.rpc('authenticate_api_token', { p_token_hash: hashToken(token) })
+  if (error) throw error
+
+  const match = (data as { token_user_id: string; token_scope: ApiTokenScope }[] | null)?.[0]
+  return match ? { userId: match.token_user_id, scope: match.token_scope } : null
+}
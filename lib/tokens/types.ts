@@ -0,0 +1,26 @@
+// Read tokens can list entries; write tokens can also create, change and delete them
+export type ApiTokenScope = 'read' | 'write'
+
+export interface ApiToken {
+  id: string
+  name: string
+  scope: ApiTokenScope
+  prefix: string
+  createdAt: string
+  lastUsedAt: string | null
+  revokedAt: string | null
+}
+
+export interface ApiTokenRow {
+  id: string
+  user_id: string
+  name: string
+  scope: ApiTokenScope
+  token_hash: string
+  token_prefix: string
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+export const MAX_TOKEN_NAME_LENGTH = 50
@@ -0,0 +1,31 @@
+import { request } from '@/lib/logs/remote'
+import type { Webhook, WebhookDelivery } from './types'
+
+// Browser-side helpers for the /api/webhooks route handlers
+
+export async function fetchRemoteWebhooks(): Promise<Webhook[]> {
+  const { webhooks } = await request<{ webhooks: Webhook[] }>('/api/webhooks')
+  return webhooks
+}
+
+export async function createRemoteWebhook(url: string): Promise<Webhook> {
+  const { webhook } = await request<{ webhook: Webhook }>('/api/webhooks', {
+    method: 'POST',
+    body: JSON.stringify({ url })
+  })
+  return webhook
+}
+
+export async function deleteRemoteWebhook(id: string): Promise<void> {
+  await request<{ deleted: boolean }>(`/api/webhooks/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+export async function sendRemoteTestEvent(id: string): Promise<WebhookDelivery> {
+  const { delivery } = await request<{ delivery: WebhookDelivery }>(`/api/webhooks/${encodeURIComponent(id)}/test`, { method: 'POST' })
+  return delivery
+}
+
+export async function fetchRemoteDeliveries(): Promise<WebhookDelivery[]> {
+  const { deliveries } = await request<{ deliveries: WebhookDelivery[] }>('/api/webhooks/deliveries')
+  return deliveries
+}
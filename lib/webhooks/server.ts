@@ -0,0 +1,312 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto'
+import { after } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { LogEntry } from '@/lib/logs/types'
+import { createServiceClient } from '@/lib/supabase/server'
+import {
+  MAX_WEBHOOK_URL_LENGTH,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookDeliveryRow,
+  type WebhookEventType,
+  type WebhookPayload,
+  type WebhookRow
+} from './types'
+import { postToWebhook } from './targets'
+
+const SECRET_PREFIX = 'whsec_'
+
+// Wait before each retry; a delivery that fails once more after the last one is marked failed
+const RETRY_DELAYS_MS = [60, 5 * 60, 30 * 60, 2 * 60 * 60, 12 * 60 * 60].map(seconds => seconds * 1000)
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+// Pushes a claimed delivery out of the due list so a second sweep doesn't send it twice
+const CLAIM_LEASE_MS = 60 * 1000
+const DUE_BATCH_SIZE = 20
+const MAX_ERROR_LENGTH = 500
+
+const rowToWebhook = (row: WebhookRow): Webhook => ({
+  id: row.id,
+  url: row.url,
+  secret: row.secret,
+  createdAt: row.created_at
+})
+
+const rowToDelivery = (row: WebhookDeliveryRow): WebhookDelivery => ({
+  id: row.id,
+  webhookId: row.webhook_id,
+  event: row.event,
+  status: row.status,
+  attempts: row.attempts,
+  nextAttemptAt: row.next_attempt_at,
+  responseStatus: row.response_status,
+  error: row.error,
+  createdAt: row.created_at,
+  deliveredAt: row.delivered_at
+})
+
+export const parseWebhookInput = (body: unknown): { value: { url: string }; error?: undefined } | { value?: undefined; error: string } => {
+  const input = (body ?? {}) as Record<string, unknown>
+  const url = typeof input.url === 'string' ? input.url.trim() : ''
+  if (url.length === 0) return { error: 'Enter the URL to send events to' }
+  if (url.length > MAX_WEBHOOK_URL_LENGTH) return { error: `URLs can be at most ${MAX_WEBHOOK_URL_LENGTH} characters` }
+  try {
+    const { protocol } = new URL(url)
+    if (protocol !== 'http:' && protocol !== 'https:') return { error: 'URL must start with http:// or https://' }
+  } catch {
+    return { error: 'URL is not valid' }
+  }
+  return { value: { url } }
+}
+
+// Stripe-style signature over the timestamp and raw body, so receivers can reject replays
+export const signPayload = (secret: string, timestamp: number, body: string) =>
+  `t=${timestamp},v1=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+
+// Webhooks are read and managed with the signed-in user's client, so row-level security keeps
+// them to that user's own. Deliveries are the exception: users can only read them, and the
+// server queues and updates them with the service client, which bypasses row-level security.
+
+export async function listWebhooks(supabase: SupabaseClient): Promise<Webhook[]> {
+  const { data, error } = await supabase
+    .from('webhooks')
+    .select('*')
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data as WebhookRow[]).map(rowToWebhook)
+}
+
+export async function createWebhook(supabase: SupabaseClient, userId: string, url: string): Promise<Webhook> {
+  const { data, error } = await supabase
+    .from('webhooks')
+    .insert({ user_id: userId, url, secret: `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}` })
+    .select()
+    .single()
+
+  if (error) throw error
+  return rowToWebhook(data as WebhookRow)
+}
+
+// Deleting a webhook also removes its delivery log; returns false when it does not exist
+export async function deleteWebhook(supabase: SupabaseClient, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('webhooks')
+    .delete()
+    .eq('id', id)
+    .select('id')
+    .maybeSingle()
+
+  if (error) throw error
+  return !!data
+}
+
+export const DELIVERY_LOG_SIZE = 50
+
+export async function listDeliveries(supabase: SupabaseClient): Promise<WebhookDelivery[]> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(DELIVERY_LOG_SIZE)
+
+  if (error) throw error
+  return (data as WebhookDeliveryRow[]).map(rowToDelivery)
+}
+
+const buildPayload = (type: WebhookEventType, log: LogEntry): WebhookPayload => ({
+  id: randomUUID(),
+  type,
+  createdAt: new Date().toISOString(),
+  data: { log }
+})
+
+// One attempt at sending a claimed delivery; records the outcome and schedules the next retry
+const attemptDelivery = async (
+  row: WebhookDeliveryRow,
+  webhook: Pick<WebhookRow, 'url' | 'secret'>
+): Promise<WebhookDelivery> => {
+  const body = JSON.stringify(row.payload)
+  let responseStatus: number | null = null
+  let failure: string | null = null
+
+  try {
+    responseStatus = await postToWebhook(webhook.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'TEA-Tracker-Webhooks/1',
+      'X-Tea-Event': row.event,
+      'X-Tea-Delivery': row.id,
+      'X-Tea-Signature': signPayload(webhook.secret, Math.floor(Date.now() / 1000), body)
+    }, body, DELIVERY_TIMEOUT_MS)
+    if (responseStatus < 200 || responseStatus >= 300) failure = `Receiver responded with ${responseStatus}`
+  } catch (error) {
+    failure = error instanceof Error ? error.message : 'Request failed'
+  }
+
+  const attempts = row.attempts + 1
+  const now = new Date()
+  const update: Partial<WebhookDeliveryRow> = failure === null
+    ? { status: 'succeeded', attempts, response_status: responseStatus, error: null, delivered_at: now.toISOString() }
+    : attempts >= MAX_ATTEMPTS
+      ? { status: 'failed', attempts, response_status: responseStatus, error: failure.slice(0, MAX_ERROR_LENGTH) }
+      : {
+          attempts,
+          response_status: responseStatus,
+          error: failure.slice(0, MAX_ERROR_LENGTH),
+          next_attempt_at: new Date(now.getTime() + RETRY_DELAYS_MS[attempts - 1]).toISOString()
+        }
+
+  const { data, error } = await createServiceClient()
+    .from('webhook_deliveries')
+    .update(update)
+    .eq('id', row.id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return rowToDelivery(data as WebhookDeliveryRow)
+}
+
+// Take a pending delivery for this sweep; false when another sweep got to it first
+const claimDelivery = async (row: WebhookDeliveryRow): Promise<boolean> => {
+  const { data, error } = await createServiceClient()
+    .from('webhook_deliveries')
+    .update({ next_attempt_at: new Date(Date.now() + CLAIM_LEASE_MS).toISOString() })
+    .eq('id', row.id)
+    .eq('status', 'pending')
+    .eq('next_attempt_at', row.next_attempt_at)
+    .select('id')
+    .maybeSingle()
+
+  if (error) throw error
+  return !!data
+}
+
+type DueDeliveryRow = WebhookDeliveryRow & { webhooks: Pick<WebhookRow, 'url' | 'secret'> | null }
+
+// Send up to a batch of deliveries whose next attempt is due and return how many were due.
+// Runs after each change to an entry, whenever the delivery log is opened, and from the
+// scheduled /api/webhooks/deliver job, which drains retries for every account. `supabase` only
+// picks which deliveries are due: a user's client sees their own, the service client all of them.
+export async function deliverDueWebhooks(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*, webhooks(url, secret)')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(DUE_BATCH_SIZE)
+
+  if (error) throw error
+
+  await Promise.all((data as DueDeliveryRow[]).map(async ({ webhooks: webhook, ...row }) => {
+    if (!webhook) return
+    try {
+      if (await claimDelivery(row)) {
+        await attemptDelivery(row, webhook)
+      }
+    } catch (deliveryError) {
+      console.error('Error delivering webhook:', deliveryError)
+    }
+  }))
+  return data.length
+}
+
+// Keep sending due deliveries until none are left or the time budget runs out
+export async function drainDueWebhooks(supabase: SupabaseClient, budgetMs: number): Promise<number> {
+  const deadline = Date.now() + budgetMs
+  let total = 0
+  let due: number
+  do {
+    due = await deliverDueWebhooks(supabase)
+    total += due
+  } while (due === DUE_BATCH_SIZE && Date.now() < deadline)
+  return total
+}
+
+// Queue an event per entry for each of the user's webhooks and send them once the response is
+// out. Webhooks are best effort: a failure here never fails the change that caused it.
+// `supabase` acts as the user, so only their own webhooks are found.
+export async function dispatchLogEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  type: Exclude<WebhookEventType, 'webhook.test'>,
+  logs: LogEntry[]
+): Promise<void> {
+  if (logs.length === 0) return
+  try {
+    const { data: webhooks, error: webhooksError } = await supabase
+      .from('webhooks')
+      .select('id')
+
+    if (webhooksError) throw webhooksError
+    if (webhooks.length === 0) return
+
+    const payloads = logs.map(log => buildPayload(type, log))
+    const { error } = await createServiceClient()
+      .from('webhook_deliveries')
+      .insert(payloads.flatMap(payload => (webhooks as Pick<WebhookRow, 'id'>[]).map(webhook => ({
+        webhook_id: webhook.id,
+        user_id: userId,
+        event: type,
+        payload
+      }))))
+
+    if (error) throw error
+  } catch (error) {
+    console.error('Error queueing webhook event:', error)
+    return
+  }
+
+  after(() => deliverDueWebhooks(supabase).catch(error => {
+    console.error('Error delivering webhooks:', error)
+  }))
+}
+
+export const dispatchLogEvent = (
+  supabase: SupabaseClient,
+  userId: string,
+  type: Exclude<WebhookEventType, 'webhook.test'>,
+  log: LogEntry
+) => dispatchLogEvents(supabase, userId, type, [log])
+
+// Made-up entry for test events so receivers can be wired up before anything is logged
+const TEST_LOG: Omit<LogEntry, 'timestamp'> = {
+  id: 'test',
+  energy: 3,
+  energyLabel: 'Steady',
+  attention: 'focused',
+  note: 'Test event from TEA Tracker',
+  imageRef: null,
+  deletedAt: null
+}
+
+// Sends a test event right away and returns its delivery; null when the webhook does not exist.
+// A failed test is retried like any other delivery.
+export async function sendTestEvent(supabase: SupabaseClient, userId: string, webhookId: string): Promise<WebhookDelivery | null> {
+  const { data: webhook, error: webhookError } = await supabase
+    .from('webhooks')
+    .select('*')
+    .eq('id', webhookId)
+    .maybeSingle()
+
+  if (webhookError) throw webhookError
+  if (!webhook) return null
+
+  const { data, error } = await createServiceClient()
+    .from('webhook_deliveries')
+    .insert({
+      webhook_id: webhookId,
+      user_id: userId,
+      event: 'webhook.test',
+      payload: buildPayload('webhook.test', { ...TEST_LOG, timestamp: new Date().toISOString() }),
+      // Out of the due list while it is being sent here
+      next_attempt_at: new Date(Date.now() + CLAIM_LEASE_MS).toISOString()
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return attemptDelivery(data as WebhookDeliveryRow, webhook as WebhookRow)
+}
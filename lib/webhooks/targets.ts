@@ -0,0 +1,122 @@
+import { lookup as lookupCallback, type LookupAddress } from 'dns'
+import { lookup } from 'dns/promises'
+import { request as httpRequest } from 'http'
+import { request as httpsRequest } from 'https'
+import { BlockList, isIP, type LookupFunction } from 'net'
+
+// Webhook URLs are fetched from the server, so they must not reach into the deployment's own
+// network: loopback, private, link-local (cloud metadata at 169.254.169.254) and other
+// non-public ranges are refused. IPv4-mapped IPv6 addresses are checked as IPv4.
+const PRIVATE_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+]
+
+const LOOPBACK_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['127.0.0.0', 8, 'ipv4'],
+  ['::1', 128, 'ipv6']
+]
+
+const buildBlockList = (ranges: [string, number, 'ipv4' | 'ipv6'][]) => {
+  const list = new BlockList()
+  ranges.forEach(([network, prefix, type]) => list.addSubnet(network, prefix, type))
+  return list
+}
+
+const privateAddresses = buildBlockList(PRIVATE_RANGES)
+const loopbackAddresses = buildBlockList(LOOPBACK_RANGES)
+
+const isBlockedAddress = (address: string) => {
+  const type = isIP(address) === 6 ? 'ipv6' : 'ipv4'
+  // A local receiver is handy while developing, and nowhere else
+  const allowLoopback = process.env.NODE_ENV === 'development'
+  return privateAddresses.check(address, type) || (!allowLoopback && loopbackAddresses.check(address, type))
+}
+
+const BLOCKED_MESSAGE = 'URL must point to a public address'
+
+const getHostname = (url: URL) => url.hostname.replace(/^\[(.*)\]$/, '$1')
+
+// Resolve the URL's host and return why it can't be used, or null when every address is public.
+// Checked when a webhook is saved; deliveries check again as they connect, since DNS can change.
+export async function checkWebhookTarget(url: string): Promise<string | null> {
+  let hostname: string
+  try {
+    hostname = getHostname(new URL(url))
+  } catch {
+    return 'URL is not valid'
+  }
+
+  let addresses: string[]
+  if (isIP(hostname)) {
+    addresses = [hostname]
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true, verbatim: true })).map(({ address }) => address)
+    } catch {
+      return `Could not resolve ${hostname}`
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    return BLOCKED_MESSAGE
+  }
+  return null
+}
+
+// dns.lookup for the delivery's connection, failing when any address is blocked. The socket
+// connects to the address checked here, so a host can't pass and then resolve somewhere else.
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error, [])
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new Error(BLOCKED_MESSAGE), [])
+    }
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+// POST to a webhook URL through guardedLookup and resolve with the response status. Redirects
+// are not followed, and the whole request is abandoned after `timeoutMs`.
+export const postToWebhook = (url: string, headers: Record<string, string>, body: string, timeoutMs: number) =>
+  new Promise<number>((resolve, reject) => {
+    const target = new URL(url)
+    // Connecting to an IP address skips the lookup, so those are checked here
+    const hostname = getHostname(target)
+    if (isIP(hostname) && isBlockedAddress(hostname)) {
+      reject(new Error(BLOCKED_MESSAGE))
+      return
+    }
+
+    const send = target.protocol === 'https:' ? httpsRequest : httpRequest
+    const request = send(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: guardedLookup
+    }, response => {
+      clearTimeout(timer)
+      response.resume()
+      resolve(response.statusCode ?? 0)
+    })
+    const timer = setTimeout(() => request.destroy(new Error('Request timed out')), timeoutMs)
+    request.on('error', error => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    request.end(body)
+  })
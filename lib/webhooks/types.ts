@@ -0,0 +1,58 @@
+import type { LogEntry } from '@/lib/logs/types'
+
+export type WebhookEventType = 'log.created' | 'log.updated' | 'log.deleted' | 'webhook.test'
+
+// Body POSTed to every webhook; see docs/api.md
+export interface WebhookPayload {
+  id: string
+  type: WebhookEventType
+  createdAt: string
+  data: { log: LogEntry }
+}
+
+export type DeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+export interface Webhook {
+  id: string
+  url: string
+  secret: string
+  createdAt: string
+}
+
+export interface WebhookDelivery {
+  id: string
+  webhookId: string
+  event: WebhookEventType
+  status: DeliveryStatus
+  attempts: number
+  nextAttemptAt: string
+  responseStatus: number | null
+  error: string | null
+  createdAt: string
+  deliveredAt: string | null
+}
+
+export interface WebhookRow {
+  id: string
+  user_id: string
+  url: string
+  secret: string
+  created_at: string
+}
+
+export interface WebhookDeliveryRow {
+  id: string
+  webhook_id: string
+  user_id: string
+  event: WebhookEventType
+  payload: WebhookPayload
+  status: DeliveryStatus
+  attempts: number
+  next_attempt_at: string
+  response_status: number | null
+  error: string | null
+  created_at: string
+  delivered_at: string | null
+}
+
+export const MAX_WEBHOOK_URL_LENGTH = 2000
@@ -0,0 +1,39 @@
+-- Logged entries for signed-in users. Guests keep their entries in localStorage.
+create table public.tea_logs (
+  id text not null,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  logged_at timestamptz not null,
+  energy smallint not null check (energy between 1 and 5),
+  energy_label text not null,
+  attention text not null check (attention in ('scattered', 'focused', 'hyperfocused')),
+  note text check (char_length(note) <= 100),
+  image_preview text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, id)
+);
+
+create index tea_logs_user_logged_at_idx on public.tea_logs (user_id, logged_at desc);
+
+alter table public.tea_logs enable row level security;
+
+create policy "Users can read their own logs"
+  on public.tea_logs for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can insert their own logs"
+  on public.tea_logs for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+create policy "Users can update their own logs"
+  on public.tea_logs for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+create policy "Users can delete their own logs"
+  on public.tea_logs for delete
+  to authenticated
+  using ((select auth.uid()) = user_id);
@@ -0,0 +1,34 @@
+-- Screenshots move out of the row into Supabase Storage; the row keeps a reference.
+-- Existing values are data URLs, which the app still renders as legacy references.
+alter table public.tea_logs rename column image_preview to image_ref;
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'tea-screenshots',
+  'tea-screenshots',
+  false,
+  5242880,
+  array['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+)
+on conflict (id) do nothing;
+
+-- Each user may only touch objects under a folder named after their user id
+create policy "Users can read their own screenshots"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'tea-screenshots' and (storage.foldername(name))[1] = (select auth.uid())::text);
+
+create policy "Users can upload their own screenshots"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'tea-screenshots' and (storage.foldername(name))[1] = (select auth.uid())::text);
+
+create policy "Users can replace their own screenshots"
+  on storage.objects for update
+  to authenticated
+  using (bucket_id = 'tea-screenshots' and (storage.foldername(name))[1] = (select auth.uid())::text);
+
+create policy "Users can delete their own screenshots"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'tea-screenshots' and (storage.foldername(name))[1] = (select auth.uid())::text);
@@ -0,0 +1,6 @@
+-- Deleted entries sit in the trash until the user restores or purges them.
+-- The app purges entries that have been in the trash for more than 30 days.
+alter table public.tea_logs add column deleted_at timestamptz;
+
+create index tea_logs_user_deleted_at_idx on public.tea_logs (user_id, deleted_at)
+  where deleted_at is not null;
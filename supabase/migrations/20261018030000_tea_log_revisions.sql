@@ -0,0 +1,60 @@
+-- Audit trail of every change to an entry. Rows are written only by the trigger
+-- below, and users can read but never modify them, so the history can't be rewritten.
+create table public.tea_log_revisions (
+  id bigint generated always as identity primary key,
+  user_id uuid not null,
+  log_id text not null,
+  changed_at timestamptz not null default now(),
+  -- { "<field>": { "before": ..., "after": ... } } using the app's LogEntry field names
+  changes jsonb not null,
+  foreign key (user_id, log_id) references public.tea_logs (user_id, id) on delete cascade
+);
+
+create index tea_log_revisions_log_idx on public.tea_log_revisions (user_id, log_id, changed_at desc);
+
+alter table public.tea_log_revisions enable row level security;
+
+create policy "Users can read their own log revisions"
+  on public.tea_log_revisions for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+create function public.record_tea_log_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  changes jsonb := '{}'::jsonb;
+begin
+  if new.logged_at is distinct from old.logged_at then
+    changes := changes || jsonb_build_object('timestamp', jsonb_build_object('before', old.logged_at, 'after', new.logged_at));
+  end if;
+  if new.energy is distinct from old.energy then
+    changes := changes || jsonb_build_object('energy', jsonb_build_object('before', old.energy, 'after', new.energy));
+  end if;
+  if new.attention is distinct from old.attention then
+    changes := changes || jsonb_build_object('attention', jsonb_build_object('before', old.attention, 'after', new.attention));
+  end if;
+  if new.note is distinct from old.note then
+    changes := changes || jsonb_build_object('note', jsonb_build_object('before', old.note, 'after', new.note));
+  end if;
+  if new.image_ref is distinct from old.image_ref then
+    changes := changes || jsonb_build_object('imageRef', jsonb_build_object('before', old.image_ref, 'after', new.image_ref));
+  end if;
+  if new.deleted_at is distinct from old.deleted_at then
+    changes := changes || jsonb_build_object('deletedAt', jsonb_build_object('before', old.deleted_at, 'after', new.deleted_at));
+  end if;
+
+  if changes <> '{}'::jsonb then
+    insert into public.tea_log_revisions (user_id, log_id, changes)
+    values (new.user_id, new.id, changes);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tea_logs_record_revision
+  after update on public.tea_logs
+  for each row execute function public.record_tea_log_revision();
@@ -0,0 +1,68 @@
+-- Personal access tokens for scripts and devices that can't hold a session cookie.
+-- Only a hash of each token is stored; the token itself is shown once, when it is created.
+create table public.api_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 50),
+  scope text not null check (scope in ('read', 'write')),
+  token_hash text not null unique,
+  -- The start of the token so users can tell their tokens apart
+  token_prefix text not null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index api_tokens_user_idx on public.api_tokens (user_id, created_at desc);
+
+alter table public.api_tokens enable row level security;
+
+create policy "Users can read their own API tokens"
+  on public.api_tokens for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+create policy "Users can create their own API tokens"
+  on public.api_tokens for insert
+  to authenticated
+  with check ((select auth.uid()) = user_id);
+
+-- Revoking sets revoked_at; tokens are kept so their last use stays visible
+create policy "Users can revoke their own API tokens"
+  on public.api_tokens for update
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+-- Looks up an active token by hash for a request that has no session yet. Knowing the hash
+-- requires the token, so this is safe to expose. last_used_at is refreshed at most once a
+-- minute to keep busy scripts from writing on every request.
+create function public.authenticate_api_token(p_token_hash text)
+returns table (token_user_id uuid, token_scope text)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  token public.api_tokens;
+begin
+  select * into token
+  from public.api_tokens t
+  where t.token_hash = p_token_hash and t.revoked_at is null;
+
+  if not found then
+    return;
+  end if;
+
+  if token.last_used_at is null or token.last_used_at < now() - interval '1 minute' then
+    update public.api_tokens set last_used_at = now() where id = token.id;
+  end if;
+
+  token_user_id := token.user_id;
+  token_scope := token.scope;
+  return next;
+end;
+$$;
+
+revoke execute on function public.authenticate_api_token(text) from public;
+grant execute on function public.authenticate_api_token(text) to anon, authenticated;
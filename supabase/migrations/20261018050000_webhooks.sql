@@ -0,0 +1,46 @@
+-- Webhooks notify a user's own services when their entries change. Each event becomes one
+-- delivery row per webhook, retried with backoff until it succeeds or runs out of attempts.
+create table public.webhooks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  url text not null check (url ~ '^https?://' and char_length(url) <= 2000),
+  -- Signing secret; receivers use it to check the X-Tea-Signature header
+  secret text not null,
+  created_at timestamptz not null default now()
+);
+
+create index webhooks_user_idx on public.webhooks (user_id, created_at desc);
+
+create table public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  webhook_id uuid not null references public.webhooks (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  event text not null,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'succeeded', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  response_status integer,
+  error text,
+  created_at timestamptz not null default now(),
+  delivered_at timestamptz
+);
+
+create index webhook_deliveries_webhook_idx on public.webhook_deliveries (webhook_id, created_at desc);
+create index webhook_deliveries_due_idx on public.webhook_deliveries (user_id, next_attempt_at)
+  where status = 'pending';
+
+alter table public.webhooks enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+create policy "Users can manage their own webhooks"
+  on public.webhooks for all
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
+
+create policy "Users can manage their own webhook deliveries"
+  on public.webhook_deliveries for all
+  to authenticated
+  using ((select auth.uid()) = user_id)
+  with check ((select auth.uid()) = user_id);
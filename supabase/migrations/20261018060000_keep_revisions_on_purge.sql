@@ -0,0 +1,50 @@
+-- Purging an entry keeps its revisions, so the audit trail outlives the entry itself. The last
+-- revision records the purge, with each field's final value as "before" and null as "after".
+alter table public.tea_log_revisions
+  drop constraint tea_log_revisions_user_id_log_id_fkey;
+
+-- Deleting the account still removes its revisions
+alter table public.tea_log_revisions
+  add constraint tea_log_revisions_user_id_fkey
+  foreign key (user_id) references auth.users (id) on delete cascade;
+
+alter table public.tea_log_revisions add column purged boolean not null default false;
+
+create function public.record_tea_log_purge()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  changes jsonb;
+begin
+  -- Entries removed along with their account leave nothing behind
+  if not exists (select 1 from auth.users where id = old.user_id) then
+    return old;
+  end if;
+
+  changes := jsonb_build_object(
+    'timestamp', jsonb_build_object('before', old.logged_at, 'after', null),
+    'energy', jsonb_build_object('before', old.energy, 'after', null),
+    'attention', jsonb_build_object('before', old.attention, 'after', null)
+  );
+  if old.note is not null then
+    changes := changes || jsonb_build_object('note', jsonb_build_object('before', old.note, 'after', null));
+  end if;
+  if old.image_ref is not null then
+    changes := changes || jsonb_build_object('imageRef', jsonb_build_object('before', old.image_ref, 'after', null));
+  end if;
+  if old.deleted_at is not null then
+    changes := changes || jsonb_build_object('deletedAt', jsonb_build_object('before', old.deleted_at, 'after', null));
+  end if;
+
+  insert into public.tea_log_revisions (user_id, log_id, changes, purged)
+  values (old.user_id, old.id, changes, true);
+  return old;
+end;
+$$;
+
+create trigger tea_logs_record_purge
+  after delete on public.tea_logs
+  for each row execute function public.record_tea_log_purge();
@@ -0,0 +1,22 @@
+-- Deliveries are queued, claimed and updated only by the server with the service role. Users
+-- can read their own delivery log but not write to it, so nobody can queue a forged payload
+-- for a webhook, or rewrite the status and attempts of a delivery.
+drop policy "Users can manage their own webhook deliveries" on public.webhook_deliveries;
+
+create policy "Users can read their own webhook deliveries"
+  on public.webhook_deliveries for select
+  to authenticated
+  using ((select auth.uid()) = user_id);
+
+-- A delivery always belongs to the owner of its webhook. Rows that don't were written through
+-- the old policy and are dropped before the constraint is added.
+delete from public.webhook_deliveries d
+  where not exists (
+    select 1 from public.webhooks w where w.id = d.webhook_id and w.user_id = d.user_id
+  );
+
+alter table public.webhooks add constraint webhooks_id_user_id_key unique (id, user_id);
+
+alter table public.webhook_deliveries
+  add constraint webhook_deliveries_webhook_owner_fkey
+  foreign key (webhook_id, user_id) references public.webhooks (id, user_id) on delete cascade;
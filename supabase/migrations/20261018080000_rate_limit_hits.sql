@@ -0,0 +1,59 @@
+-- Rate limit hits shared by every server instance. Only the service role touches them: the
+-- table has no policies, and the functions are not executable by users.
+create table public.rate_limit_hits (
+  key text not null,
+  hit_id text not null,
+  -- Milliseconds since the epoch, as the limiter counts them
+  hit_at bigint not null,
+  hits integer not null check (hits > 0),
+  expires_at bigint not null,
+  primary key (key, hit_id)
+);
+
+create index rate_limit_hits_expires_idx on public.rate_limit_hits (expires_at);
+
+alter table public.rate_limit_hits enable row level security;
+
+-- Record hits and return every hit for the key in the window, new ones included. A lock per key
+-- makes concurrent calls take turns, so each one counts the hits recorded before it.
+create function public.rate_limit_add_hits(
+  p_key text,
+  p_hit_id text,
+  p_at bigint,
+  p_hits integer,
+  p_window_ms bigint
+)
+returns table (hit_at bigint, hits integer)
+language plpgsql
+set search_path = ''
+as $$
+#variable_conflict use_column
+begin
+  perform pg_advisory_xact_lock(hashtextextended(p_key, 0));
+
+  delete from public.rate_limit_hits h where h.key = p_key and h.hit_at <= p_at - p_window_ms;
+  insert into public.rate_limit_hits (key, hit_id, hit_at, hits, expires_at)
+  values (p_key, p_hit_id, p_at, p_hits, p_at + p_window_ms);
+
+  -- Now and then, drop keys nobody has hit for a while
+  if random() < 0.01 then
+    delete from public.rate_limit_hits h where h.expires_at <= p_at;
+  end if;
+
+  return query select h.hit_at, h.hits from public.rate_limit_hits h where h.key = p_key;
+end;
+$$;
+
+-- Take back hits for a request the limiter turned away
+create function public.rate_limit_remove_hits(p_key text, p_hit_id text)
+returns void
+language sql
+set search_path = ''
+as $$
+  delete from public.rate_limit_hits where key = p_key and hit_id = p_hit_id;
+$$;
+
+revoke all on function public.rate_limit_add_hits(text, text, bigint, integer, bigint) from public, anon, authenticated;
+revoke all on function public.rate_limit_remove_hits(text, text) from public, anon, authenticated;
+grant execute on function public.rate_limit_add_hits(text, text, bigint, integer, bigint) to service_role;
+grant execute on function public.rate_limit_remove_hits(text, text) to service_role;